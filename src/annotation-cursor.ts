@@ -0,0 +1,193 @@
+// * Reads class annotations the same way Java's readObject and readExternal methods see them.
+// *
+// * Data written by writeObject/writeExternal is stored as a list of BlockData chunks with
+// * objects between them. Java treats the chunks as one continuous stream of primitive data,
+// * so a single value may be split across 2 chunks. The cursor reads primitive data across
+// * consecutive chunks, and objects in the order they were written. Like Java, reading an
+// * object while primitive data is left before it, or reading primitive data when the next
+// * element is an object, is an error
+
+import { decodeModifiedUTF8 } from '@/modified-utf8';
+import { dataView, concatBytes } from '@/bytes';
+import {
+	BlockData,
+	ExternalData
+} from '@/object-input-stream';
+import type JavaValue from '@/types/java-value';
+
+export default class AnnotationCursor {
+	private annotation: JavaValue[];
+	private strictUTF: boolean;
+	private index = 0; // * Element of the annotation currently being read
+	private offset = 0; // * Offset into the current element, if it is block data
+
+	constructor(annotation: JavaValue[], options: { strictUTF?: boolean; } = {}) {
+		this.annotation = annotation;
+		this.strictUTF = options.strictUTF ?? true;
+	}
+
+	public readBoolean(): boolean {
+		return this.read(1)[0] !== 0;
+	}
+
+	public readByte(): number {
+		return dataView(this.read(1)).getInt8(0);
+	}
+
+	public readChar(): string {
+		const charCode = dataView(this.read(2)).getUint16(0);
+		return String.fromCharCode(charCode);
+	}
+
+	public readDouble(): number {
+		return dataView(this.read(8)).getFloat64(0);
+	}
+
+	public readFloat(): number {
+		return dataView(this.read(4)).getFloat32(0);
+	}
+
+	public readInt(): number {
+		return dataView(this.read(4)).getInt32(0);
+	}
+
+	public readLong(): bigint {
+		return dataView(this.read(8)).getBigInt64(0);
+	}
+
+	public readShort(): number {
+		return dataView(this.read(2)).getInt16(0);
+	}
+
+	public readUnsignedByte(): number {
+		return this.read(1)[0];
+	}
+
+	public readUnsignedShort(): number {
+		return dataView(this.read(2)).getUint16(0);
+	}
+
+	public readUTF(): string {
+		const length = this.readUnsignedShort();
+		return decodeModifiedUTF8(this.read(length), this.strictUTF);
+	}
+
+	public readFully(length: number): Uint8Array {
+		return this.read(length);
+	}
+
+	public skipBytes(length: number): void {
+		this.read(length);
+	}
+
+	// * Returns the next object. Throws if there is primitive data left before it
+	public readObject(): JavaValue {
+		this.skipEmptyData();
+
+		if (this.index >= this.annotation.length) {
+			throw new Error('Cannot read object. No annotation data left');
+		}
+
+		const element = this.annotation[this.index];
+
+		if (isData(element)) {
+			throw new Error(`Cannot read object. ${this.available()} bytes of primitive data are left before the next object`);
+		}
+
+		this.index++;
+
+		return element;
+	}
+
+	// * Number of bytes of primitive data which can be read before the next object
+	public available(): number {
+		let available = 0;
+
+		for (let i = this.index; i < this.annotation.length && isData(this.annotation[i]); i++) {
+			available += this.dataAt(i).length - (i === this.index ? this.offset : 0);
+		}
+
+		return available;
+	}
+
+	public hasDataLeft(): boolean {
+		this.skipEmptyData();
+
+		return this.index < this.annotation.length;
+	}
+
+	// * Reads bytes across consecutive block data chunks. Data inside of a single chunk
+	// * is returned without copying
+	private read(length: number): Uint8Array {
+		if (length < 0) {
+			throw new RangeError(`Invalid length ${length}`);
+		}
+
+		const available = this.available();
+
+		if (length > available) {
+			// * Primitive data only ever runs until the next object, or the end of the annotation
+			const reason = this.annotation.slice(this.index).some(element => !isData(element)) ? 'Next element is an object' : 'No annotation data left';
+
+			throw new RangeError(`Cannot read ${length} bytes of primitive data. Only ${available} bytes left. ${reason}`);
+		}
+
+		this.skipEmptyData();
+
+		if (length === 0) {
+			return new Uint8Array(0);
+		}
+
+		const current = this.dataAt(this.index);
+
+		if (current.length - this.offset >= length) {
+			const data = current.subarray(this.offset, this.offset + length);
+
+			this.advance(length);
+
+			return data;
+		}
+
+		const parts: Uint8Array[] = [];
+		let remaining = length;
+
+		while (remaining > 0) {
+			this.skipEmptyData();
+
+			const chunk = this.dataAt(this.index);
+			const part = chunk.subarray(this.offset, this.offset + remaining);
+
+			parts.push(part);
+			remaining -= part.length;
+			this.advance(part.length);
+		}
+
+		return concatBytes(parts, length);
+	}
+
+	// * Only valid for elements which are data, as checked by "isData"
+	private dataAt(index: number): Uint8Array {
+		return (this.annotation[index] as BlockData | ExternalData).data;
+	}
+
+	private advance(length: number): void {
+		this.offset += length;
+
+		if (this.offset === this.dataAt(this.index).length) {
+			this.index++;
+			this.offset = 0;
+		}
+	}
+
+	private skipEmptyData(): void {
+		while (this.index < this.annotation.length && isData(this.annotation[this.index]) && this.dataAt(this.index).length === this.offset) {
+			this.index++;
+			this.offset = 0;
+		}
+	}
+}
+
+// * ExternalData is treated the same as block data, so PROTOCOL_VERSION_1 contents can be read too
+function isData(element: JavaValue): element is BlockData | ExternalData {
+	return element instanceof BlockData || element instanceof ExternalData;
+}
@@ -0,0 +1,51 @@
+import { dataView } from '@/bytes';
+import type InputStream from '@/types/input-stream';
+
+// * Shared implementation of the typed readers in the InputStream interface.
+// * Subclasses only need to manage the data source itself. All typed reads
+// * are done on the bytes returned by "read", so they never have to care
+// * about where the data actually lives
+
+export default abstract class BaseInputStream implements InputStream {
+	public abstract hasDataLeft(): boolean;
+	public abstract pos(): number;
+	public abstract peek(): number;
+	public abstract skip(offset: number): void;
+	public abstract read(len: number): Uint8Array;
+
+	public readBoolean(): boolean {
+		return this.read(1)[0] !== 0;
+	}
+
+	public readInt8(): number {
+		return dataView(this.read(1)).getInt8(0);
+	}
+
+	public readInt16BE(): number {
+		return dataView(this.read(2)).getInt16(0);
+	}
+
+	public readInt32BE(): number {
+		return dataView(this.read(4)).getInt32(0);
+	}
+
+	public readInt64BE(): bigint {
+		return dataView(this.read(8)).getBigInt64(0);
+	}
+
+	public readUInt8(): number {
+		return this.read(1)[0];
+	}
+
+	public readUInt16BE(): number {
+		return dataView(this.read(2)).getUint16(0);
+	}
+
+	public readDoubleBE(): number {
+		return dataView(this.read(8)).getFloat64(0);
+	}
+
+	public readFloatBE(): number {
+		return dataView(this.read(4)).getFloat32(0);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+// * Entry point for browsers and workers. Everything here is built on Uint8Array and DataView,
+// * and does not depend on any Node modules or on Buffer
+
+export { default as ObjectInputStream } from '@/object-input-stream';
+export { default as BufferInputStream } from '@/buffer-input-stream';
+export { default as ChunkedInputStream } from '@/chunked-input-stream';
+export { default as ObjectOutputStream } from '@/object-output-stream';
+export { default as BufferOutputStream } from '@/buffer-output-stream';
+export { default as ClassRegistry } from '@/class-registry';
+export { default as AnnotationCursor } from '@/annotation-cursor';
+export { EndOfDataError, InsufficientDataError, JavaSerializationError, SecurityLimitError } from '@/errors';
+export { matchesClassPattern } from '@/class-filter';
+export { default as toPlain } from '@/to-plain';
+export { decode, findDecoder, createDefaultDecoders } from '@/decoders';
+export { decodeModifiedUTF8, encodeModifiedUTF8 } from '@/modified-utf8';
+export { dump, dumpLines, trace } from '@/dump';
+export { default as SchemaRegistry, collectClassDescs } from '@/schema-registry';
+export { walk, query } from '@/query';
+export { diff, formatDiff } from '@/diff';
+export { scanGadgets, formatGadgetReport } from '@/gadget-scanner';
+export { GADGET_SIGNATURES } from '@/gadget-signatures';
+export { generateTypeScript } from '@/type-generator';
+export { readCharlesSession, CharlesSession, CharlesHost, CharlesTransaction, toHAR } from '@/charles';
+
+export { ClassData } from '@/object-input-stream';
+export { JavaObject } from '@/object-input-stream';
+export { JavaClassDesc } from '@/object-input-stream';
+export { JavaClassDescInfo } from '@/object-input-stream';
+export { JavaClassDescInfoField } from '@/object-input-stream';
+export { JavaString } from '@/object-input-stream';
+export { JavaLongString } from '@/object-input-stream';
+export { BlockData } from '@/object-input-stream';
+export { BlockDataLong } from '@/object-input-stream';
+export { ExternalData } from '@/object-input-stream';
+export { JavaArray } from '@/object-input-stream';
+export { JavaEnum } from '@/object-input-stream';
+export { JavaClassDescView } from '@/object-input-stream';
+export { JavaClass } from '@/object-input-stream';
+export { JavaProxyClassDesc } from '@/object-input-stream';
+export { JavaException } from '@/object-input-stream';
+export { JavaReset } from '@/object-input-stream';
+
+export type { default as InputStream, AsyncInputStream } from '@/types/input-stream';
+export type { default as OutputStream } from '@/types/output-stream';
+export type { default as ObjectInputStreamOptions } from '@/types/object-input-stream-options';
+export type { default as ReadDiagnostic } from '@/types/read-diagnostic';
+export type { default as StreamLimits } from '@/types/stream-limits';
+export type { default as JavaArrayValues } from '@/types/java-array-values';
+export type { default as JavaValue } from '@/types/java-value';
+export type { default as TraceEvent } from '@/types/trace-event';
+export type { default as DumpOptions } from '@/types/dump-options';
+export type { default as ClassSchema, FieldSchema } from '@/types/class-schema';
+export type { default as TypeGeneratorOptions } from '@/types/type-generator-options';
+export type { default as WalkVisitor, WalkPath } from '@/types/walk-visitor';
+export type { default as DiffReport, ValueChange, ClassChange, FieldChange } from '@/types/diff-report';
+export type { default as GadgetSignature, GadgetSeverity } from '@/types/gadget-signature';
+export type { default as GadgetScanReport, GadgetFinding } from '@/types/gadget-scan-report';
+export type { default as ExternalReader, ExternalReaderContext } from '@/types/external-reader';
+export type { default as ClassHandler, ClassHandlerContext } from '@/types/class-handler';
+export type { default as Decoder, DecoderContext } from '@/types/decoder';
+export type { default as ToPlainOptions, PlainConverter, PlainConverterContext } from '@/types/to-plain-options';
+export type { JavaSerializationErrorDetails } from '@/errors';
+export type { CharlesHeader, CharlesTimings, CharlesWebSocketMessage, CharlesTransactionProperty } from '@/charles';
+export type { Har, HarLog, HarEntry, HarRequest, HarResponse, HarHeader, HarCookie, HarQueryString, HarPostData, HarContent, HarTimings, HarWebSocketMessage, HarOptions } from '@/charles';
\ No newline at end of file
@@ -0,0 +1,58 @@
+// * InputStream backed by an in-memory Uint8Array or Buffer. Reads return views
+// * into the original data, so no bytes are copied. Views into a Buffer are Buffers
+
+import BaseInputStream from '@/base-input-stream';
+import { EndOfDataError } from '@/errors';
+
+export default class BufferInputStream extends BaseInputStream {
+	private buffer: Uint8Array;
+	private offset = 0;
+
+	constructor(data: Uint8Array) {
+		super();
+
+		this.buffer = data;
+	}
+
+	public hasDataLeft(): boolean {
+		return this.offset < this.buffer.length;
+	}
+
+	public pos(): number {
+		return this.offset;
+	}
+
+	public peek(): number {
+		this.ensureAvailable(1);
+
+		return this.buffer[this.offset];
+	}
+
+	public skip(offset: number): void {
+		this.ensureAvailable(offset);
+
+		this.offset += offset;
+	}
+
+	public read(len: number): Uint8Array {
+		this.ensureAvailable(len);
+
+		const data = this.buffer.subarray(this.offset, this.offset + len);
+
+		this.offset += len;
+
+		return data;
+	}
+
+	private ensureAvailable(len: number): void {
+		if (len < 0) {
+			throw new RangeError(`Invalid length ${len}`);
+		}
+
+		const remaining = this.buffer.length - this.offset;
+
+		if (len > remaining) {
+			throw new EndOfDataError(`Cannot read ${len} bytes. Only ${remaining} bytes left`, this.offset);
+		}
+	}
+}
\ No newline at end of file
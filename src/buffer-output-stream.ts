@@ -0,0 +1,111 @@
+// * OutputStream which writes into a growable in-memory Uint8Array
+
+import { dataView } from '@/bytes';
+import type OutputStream from '@/types/output-stream';
+
+export default class BufferOutputStream implements OutputStream {
+	private buffer: Uint8Array;
+	private view: DataView;
+	private offset = 0;
+
+	constructor(initialSize = 1024) {
+		this.buffer = new Uint8Array(Math.max(initialSize, 16));
+		this.view = dataView(this.buffer);
+	}
+
+	public pos(): number {
+		return this.offset;
+	}
+
+	// * Returns a copy of everything written so far
+	public toBytes(): Uint8Array {
+		return this.buffer.slice(0, this.offset);
+	}
+
+	public write(data: Uint8Array): void {
+		this.reserve(data.length);
+		this.buffer.set(data, this.offset);
+
+		this.offset += data.length;
+	}
+
+	public writeBoolean(value: boolean): void {
+		this.writeUInt8(value ? 1 : 0);
+	}
+
+	public writeInt8(value: number): void {
+		this.reserve(1);
+		this.view.setInt8(this.offset, value);
+
+		this.offset += 1;
+	}
+
+	public writeInt16BE(value: number): void {
+		this.reserve(2);
+		this.view.setInt16(this.offset, value);
+
+		this.offset += 2;
+	}
+
+	public writeInt32BE(value: number): void {
+		this.reserve(4);
+		this.view.setInt32(this.offset, value);
+
+		this.offset += 4;
+	}
+
+	public writeInt64BE(value: bigint): void {
+		this.reserve(8);
+		this.view.setBigInt64(this.offset, value);
+
+		this.offset += 8;
+	}
+
+	public writeUInt8(value: number): void {
+		this.reserve(1);
+		this.view.setUint8(this.offset, value);
+
+		this.offset += 1;
+	}
+
+	public writeUInt16BE(value: number): void {
+		this.reserve(2);
+		this.view.setUint16(this.offset, value);
+
+		this.offset += 2;
+	}
+
+	public writeDoubleBE(value: number): void {
+		this.reserve(8);
+		this.view.setFloat64(this.offset, value);
+
+		this.offset += 8;
+	}
+
+	public writeFloatBE(value: number): void {
+		this.reserve(4);
+		this.view.setFloat32(this.offset, value);
+
+		this.offset += 4;
+	}
+
+	private reserve(len: number): void {
+		const required = this.offset + len;
+
+		if (required <= this.buffer.length) {
+			return;
+		}
+
+		let size = this.buffer.length * 2;
+
+		while (size < required) {
+			size *= 2;
+		}
+
+		const buffer = new Uint8Array(size);
+
+		buffer.set(this.buffer.subarray(0, this.offset));
+		this.buffer = buffer;
+		this.view = dataView(buffer);
+	}
+}
@@ -0,0 +1,181 @@
+// * Helpers for working with Uint8Arrays in place of Node's Buffer, so the core of the library
+// * runs in browsers and workers. Buffers are Uint8Arrays, so they are accepted everywhere a
+// * Uint8Array is, and views returned from a Buffer are Buffers themselves
+
+const HEX = Array.from({ length: 256 }, (_, byte) => byte.toString(16).padStart(2, '0'));
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function dataView(data: Uint8Array): DataView {
+	return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+export function concatBytes(parts: Uint8Array[], length = parts.reduce((total, part) => total + part.length, 0)): Uint8Array {
+	const data = new Uint8Array(length);
+	let offset = 0;
+
+	for (const part of parts) {
+		data.set(part, offset);
+		offset += part.length;
+	}
+
+	return data;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+
+	for (let i = 0; i < a.length; i++) {
+		if (a[i] !== b[i]) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+export function toHex(data: Uint8Array): string {
+	let hex = '';
+
+	for (let i = 0; i < data.length; i++) {
+		hex += HEX[data[i]];
+	}
+
+	return hex;
+}
+
+export function toBase64(data: Uint8Array): string {
+	let base64 = '';
+	let i = 0;
+
+	for (; i + 2 < data.length; i += 3) {
+		const bits = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+
+		base64 += BASE64[bits >> 18] + BASE64[(bits >> 12) & 0x3F] + BASE64[(bits >> 6) & 0x3F] + BASE64[bits & 0x3F];
+	}
+
+	if (i + 1 === data.length) {
+		const bits = data[i] << 16;
+
+		base64 += `${BASE64[bits >> 18]}${BASE64[(bits >> 12) & 0x3F]}==`;
+	} else if (i + 2 === data.length) {
+		const bits = (data[i] << 16) | (data[i + 1] << 8);
+
+		base64 += `${BASE64[bits >> 18]}${BASE64[(bits >> 12) & 0x3F]}${BASE64[(bits >> 6) & 0x3F]}=`;
+	}
+
+	return base64;
+}
+
+export function encodeUTF8(value: string): Uint8Array {
+	const bytes: number[] = [];
+
+	for (let i = 0; i < value.length; i++) {
+		let codePoint = value.charCodeAt(i);
+
+		if (codePoint >= 0xD800 && codePoint <= 0xDBFF && i + 1 < value.length) {
+			const low = value.charCodeAt(i + 1);
+
+			if (low >= 0xDC00 && low <= 0xDFFF) {
+				codePoint = 0x10000 + ((codePoint - 0xD800) << 10) + (low - 0xDC00);
+				i++;
+			}
+		}
+
+		if (codePoint >= 0xD800 && codePoint <= 0xDFFF) {
+			codePoint = 0xFFFD; // * Lone surrogates cannot be encoded
+		}
+
+		if (codePoint < 0x80) {
+			bytes.push(codePoint);
+		} else if (codePoint < 0x800) {
+			bytes.push(0xC0 | (codePoint >> 6), 0x80 | (codePoint & 0x3F));
+		} else if (codePoint < 0x10000) {
+			bytes.push(0xE0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3F), 0x80 | (codePoint & 0x3F));
+		} else {
+			bytes.push(0xF0 | (codePoint >> 18), 0x80 | ((codePoint >> 12) & 0x3F), 0x80 | ((codePoint >> 6) & 0x3F), 0x80 | (codePoint & 0x3F));
+		}
+	}
+
+	return Uint8Array.from(bytes);
+}
+
+// * Decodes standard UTF-8. Returns null if the data is not valid UTF-8, rather than
+// * replacing the invalid bytes, so callers can fall back to treating the data as binary
+export function decodeUTF8(data: Uint8Array): string | null {
+	const codePoints: number[] = [];
+	let string = '';
+	let offset = 0;
+
+	while (offset < data.length) {
+		const byte1 = data[offset];
+		let length: number;
+		let codePoint: number;
+		let min: number;
+
+		if (byte1 < 0x80) {
+			length = 1;
+			codePoint = byte1;
+			min = 0;
+		} else if ((byte1 & 0xE0) === 0xC0) {
+			length = 2;
+			codePoint = byte1 & 0x1F;
+			min = 0x80;
+		} else if ((byte1 & 0xF0) === 0xE0) {
+			length = 3;
+			codePoint = byte1 & 0x0F;
+			min = 0x800;
+		} else if ((byte1 & 0xF8) === 0xF0) {
+			length = 4;
+			codePoint = byte1 & 0x07;
+			min = 0x10000;
+		} else {
+			return null;
+		}
+
+		if (offset + length > data.length) {
+			return null;
+		}
+
+		for (let i = 1; i < length; i++) {
+			if ((data[offset + i] & 0xC0) !== 0x80) {
+				return null;
+			}
+
+			codePoint = (codePoint << 6) | (data[offset + i] & 0x3F);
+		}
+
+		// * Overlong encodings, surrogates and code points past U+10FFFF are not valid UTF-8
+		if (codePoint < min || codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF)) {
+			return null;
+		}
+
+		codePoints.push(codePoint);
+		offset += length;
+
+		if (codePoints.length >= 0x2000) {
+			string += String.fromCodePoint(...codePoints);
+			codePoints.length = 0;
+		}
+	}
+
+	return string + String.fromCodePoint(...codePoints);
+}
+
+// * Decodes UTF-16 big endian code units, such as the elements of a char[]
+export function decodeUTF16BE(data: Uint8Array): string {
+	const units: number[] = [];
+	let string = '';
+
+	for (let i = 0; i + 1 < data.length; i += 2) {
+		units.push((data[i] << 8) | data[i + 1]);
+
+		if (units.length >= 0x2000) {
+			string += String.fromCharCode(...units);
+			units.length = 0;
+		}
+	}
+
+	return string + String.fromCharCode(...units);
+}
@@ -0,0 +1,539 @@
+// * Typed API over Charles Proxy sessions (com.xk72.charles.model.*)
+// *
+// * A Charles session is a tree of ModelNodes. The children of a Session are Hosts,
+// * the children of a Host (which extends Path) are Paths and Transactions, and the
+// * children of a Path are more Paths and Transactions. Each Path stores a single
+// * segment of the request path. Transactions hold the actual request details, and
+// * are stored out of order. See the README for a full description of the structure
+// *
+// * Transaction fields are looked up by name across the whole class hierarchy. Fields
+// * which do not exist, or whose value cannot be decoded, are left null and listed in
+// * "missing", so they can be told apart from values which are null in the dump
+
+import {
+	JavaObject,
+	JavaString,
+	JavaArray,
+	BlockData
+} from '@/object-input-stream';
+import { decode } from '@/decoders';
+import { encodePrimitiveArray } from '@/primitive-arrays';
+import { encodeUTF8 } from '@/bytes';
+import type JavaValue from '@/types/java-value';
+
+const SESSION_CLASS = 'com.xk72.charles.model.Session';
+const MODEL_NODE_CLASS = 'com.xk72.charles.model.ModelNode';
+const HOST_CLASS = 'com.xk72.charles.model.Host';
+const PATH_CLASS = 'com.xk72.charles.model.Path';
+const TRANSACTION_CLASS = 'com.xk72.charles.model.Transaction';
+const INET_ADDRESS_CLASS = 'java.net.InetAddress';
+const INET6_ADDRESS_CLASS = 'java.net.Inet6Address';
+
+export interface CharlesHeader {
+	name: string;
+	value: string;
+};
+
+export interface CharlesTimings {
+	start: Date | null;
+	requestBegin: Date | null;
+	requestComplete: Date | null;
+	responseBegin: Date | null;
+	end: Date | null;
+	dns: number | null; // * Milliseconds
+	connect: number | null; // * Milliseconds
+	ssl: number | null; // * Milliseconds
+};
+
+export interface CharlesWebSocketMessage {
+	type: 'send' | 'receive'; // * "send" for messages sent by the client, "receive" for messages sent by the server
+	opcode: number; // * WebSocket frame opcode. 1 for text frames, 2 for binary frames
+	time: Date | null;
+	data: Uint8Array;
+};
+
+// * Properties of CharlesTransaction which are decoded from the transactions fields. Timings are prefixed with "timings."
+export type CharlesTransactionProperty =
+	'method' | 'protocol' | 'protocolVersion' | 'host' | 'port' | 'status' | 'statusText' |
+	'requestHeaders' | 'responseHeaders' | 'requestBody' | 'responseBody' | 'exception' |
+	'remoteAddress' | 'clientAddress' | 'webSocketMessages' | `timings.${keyof CharlesTimings}`;
+
+export class CharlesTransaction {
+	public raw: JavaObject; // * The underlying com.xk72.charles.model.Transaction object
+	public fields: Record<string, JavaValue>; // * All field values of the transaction, flattened across the class hierarchy
+	public missing: CharlesTransactionProperty[] = []; // * Properties which are null because their field was not found or could not be decoded
+	public method: string | null = null;
+	public protocol: string | null = null; // * URL scheme, such as "https"
+	public protocolVersion: string | null = null; // * Such as "HTTP/1.1"
+	public host: string | null = null;
+	public port: number | null = null;
+	public path = ''; // * Full request path, without the query
+	public query: string | null = null;
+	public status: number | null = null;
+	public statusText: string | null = null;
+	public requestHeaders: CharlesHeader[] | null = null;
+	public responseHeaders: CharlesHeader[] | null = null;
+	public requestBody: Uint8Array | null = null;
+	public responseBody: Uint8Array | null = null;
+	public timings: CharlesTimings;
+	public exception: string | null = null; // * Set if the request failed to proxy
+	public remoteAddress: string | null = null;
+	public clientAddress: string | null = null;
+	public webSocketMessages: CharlesWebSocketMessage[] | null = null; // * Empty if the transaction is not a WebSocket connection
+
+	constructor(raw: JavaObject, fields: Record<string, JavaValue>, timings: CharlesTimings) {
+		this.raw = raw;
+		this.fields = fields;
+		this.timings = timings;
+	}
+
+	public get url(): string {
+		const scheme = this.protocol ?? 'http';
+		const defaultPort = scheme === 'https' || scheme === 'wss' ? 443 : 80;
+		const port = this.port !== null && this.port !== defaultPort && this.port > 0 ? `:${this.port}` : '';
+		const query = this.query ? `?${this.query}` : '';
+
+		return `${scheme}://${this.host ?? ''}${port}${this.path}${query}`;
+	}
+
+	public get startTime(): Date | null {
+		return this.timings.start;
+	}
+
+	public get failed(): boolean {
+		return this.exception !== null;
+	}
+}
+
+export class CharlesHost {
+	public raw: JavaObject; // * The underlying com.xk72.charles.model.Host object
+	public name: string;
+	public transactions: CharlesTransaction[] = []; // * Sorted by start time
+
+	constructor(raw: JavaObject, name: string) {
+		this.raw = raw;
+		this.name = name;
+	}
+}
+
+export class CharlesSession {
+	public raw: JavaObject; // * The underlying com.xk72.charles.model.Session object
+	public hosts: CharlesHost[] = [];
+	public transactions: CharlesTransaction[] = []; // * Every transaction in the session, sorted by start time
+
+	constructor(raw: JavaObject) {
+		this.raw = raw;
+	}
+}
+
+// * A field found on an object. Distinguishes fields holding null from fields which do not exist
+type FoundField = { value: JavaValue; };
+
+// * Reads a Charles session from the top-level object of a .chls file, as
+// * returned by "ObjectInputStream.readAll()[0]"
+export function readCharlesSession(session: JavaObject): CharlesSession {
+	if (!instanceOf(session, SESSION_CLASS)) {
+		throw new Error(`Expected ${SESSION_CLASS}, got ${session.classDesc?.className.value}`);
+	}
+
+	const charlesSession = new CharlesSession(session);
+
+	for (const node of children(session)) {
+		if (!instanceOf(node, HOST_CLASS)) {
+			continue;
+		}
+
+		const transactions = readPath(node, []).sort(compareStartTime);
+
+		// * Every transaction below a host was made to that host
+		const hostFields = fieldValues(node);
+		const name = stringValue(hostFields.host) ?? transactions.find(transaction => transaction.host !== null)?.host ?? '';
+		const host = new CharlesHost(node, name);
+
+		host.transactions = transactions;
+
+		charlesSession.hosts.push(host);
+		charlesSession.transactions.push(...host.transactions);
+	}
+
+	charlesSession.transactions.sort(compareStartTime);
+
+	return charlesSession;
+}
+
+// * Recursively collects the transactions below a Path, tracking the path
+// * segments along the way so paths can be reconstructed if a transaction
+// * does not store its own
+function readPath(path: JavaObject, segments: string[]): CharlesTransaction[] {
+	const transactions: CharlesTransaction[] = [];
+
+	for (const child of children(path)) {
+		if (instanceOf(child, TRANSACTION_CLASS)) {
+			transactions.push(readTransaction(child, segments));
+		} else if (instanceOf(child, PATH_CLASS)) {
+			const segment = stringValue(child.getClassData(PATH_CLASS)?.values.value) ?? '';
+
+			transactions.push(...readPath(child, [ ...segments, segment ]));
+		}
+	}
+
+	return transactions;
+}
+
+function readTransaction(object: JavaObject, segments: string[]): CharlesTransaction {
+	const fields = fieldValues(object);
+	const missing: CharlesTransactionProperty[] = [];
+
+	// * Reads the first of the named fields which exists, or uses the fallback if it cannot be
+	// * decoded. Fields which exist but hold null are not missing, since the dump records them as not set
+	function read<T>(property: CharlesTransactionProperty, names: string[], convert: (value: JavaValue) => T | null, fallback: T | null = null): T | null {
+		const field = findField(fields, names);
+		const value = (field && field.value !== null ? convert(field.value) : null) ?? fallback;
+
+		if (value === null && (!field || field.value !== null)) {
+			missing.push(property);
+		}
+
+		return value;
+	}
+
+	const timings: CharlesTimings = {
+		start: read('timings.start', ['startTime'], dateValue),
+		requestBegin: read('timings.requestBegin', ['requestBeginTime'], dateValue),
+		requestComplete: read('timings.requestComplete', ['requestCompleteTime'], dateValue),
+		responseBegin: read('timings.responseBegin', ['responseBeginTime'], dateValue),
+		end: read('timings.end', ['endTime'], dateValue),
+		dns: read('timings.dns', ['dnsDuration'], numberValue),
+		connect: read('timings.connect', ['connectDuration'], numberValue),
+		ssl: read('timings.ssl', ['sslDuration'], numberValue)
+	};
+
+	const transaction = new CharlesTransaction(object, fields, timings);
+
+	// * The request and status lines are part of the headers, and are only used if the
+	// * transaction does not store the method, version and status on their own
+	const requestLine = firstLine(fields.requestHeader)?.split(' ') ?? null; // * GET /path HTTP/1.1
+	const status = responseStatus(fields.responseHeader);
+
+	transaction.method = read('method', ['method'], stringValue, requestLine?.[0] || null);
+	transaction.protocol = read('protocol', ['protocol', 'scheme'], stringValue);
+	transaction.protocolVersion = read('protocolVersion', ['protocolVersion'], stringValue, requestLine?.[2] || null);
+	transaction.host = read('host', ['host'], stringValue);
+	transaction.port = read('port', ['port', 'actualPort'], numberValue);
+	transaction.status = read('status', ['status', 'responseStatus'], numberValue, status?.code ?? null);
+	transaction.statusText = read('statusText', ['responseHeader'], value => responseStatus(value)?.text ?? null);
+	transaction.requestHeaders = read('requestHeaders', ['requestHeader'], headerValues);
+	transaction.responseHeaders = read('responseHeaders', ['responseHeader'], headerValues);
+	transaction.requestBody = read('requestBody', ['requestData', 'requestBody'], bytesValue);
+	transaction.responseBody = read('responseBody', ['responseData', 'responseBody'], bytesValue);
+	transaction.exception = read('exception', ['exception'], exceptionValue);
+	transaction.remoteAddress = read('remoteAddress', ['remoteAddress'], addressValue);
+	transaction.clientAddress = read('clientAddress', ['clientAddress'], addressValue);
+	transaction.webSocketMessages = read('webSocketMessages', ['webSocketMessages', 'webSocketFrames'], webSocketMessageValues, findWebSocketMessages(fields));
+
+	// * Transactions which are not WebSocket connections store null instead of an empty list
+	if (!missing.includes('webSocketMessages')) {
+		transaction.webSocketMessages ??= [];
+	}
+
+	// * Failed transactions have no file. The path is rebuilt from the Path nodes instead
+	const file = stringValue(findField(fields, ['file', 'path'])?.value);
+
+	if (file !== null) {
+		const queryStart = file.indexOf('?');
+
+		if (queryStart !== -1) {
+			transaction.path = file.substring(0, queryStart);
+			transaction.query = file.substring(queryStart + 1);
+		} else {
+			transaction.path = file;
+		}
+	} else {
+		transaction.path = '/' + segments.filter(segment => segment !== '').join('/');
+	}
+
+	transaction.missing = missing;
+
+	return transaction;
+}
+
+// * HTTP/1.1 200 OK. HTTP/2 status lines have no reason phrase, so "text" may be empty
+function responseStatus(header: unknown): { code: number; text: string; } | null {
+	const [ , code, ...text ] = firstLine(header)?.split(' ') ?? [];
+	const status = Number.parseInt(code);
+
+	return Number.isNaN(status) ? null : { code: status, text: text.join(' ') };
+}
+
+// * WebSocket frames are stored in a list of message objects on the transaction which
+// * upgraded the connection. Null if the value is not a list
+function webSocketMessageValues(value: JavaValue): CharlesWebSocketMessage[] | null {
+	const messages: CharlesWebSocketMessage[] = [];
+	const elements = listValues(value);
+
+	if (elements === null) {
+		return null;
+	}
+
+	for (const element of elements) {
+		if (!isWebSocketMessage(element)) {
+			continue;
+		}
+
+		const message = fieldValues(element);
+		const outgoing = message.outgoing ?? message.sent ?? message.fromClient;
+		const text = stringValue(message.text);
+		const data = bytesValue(message.data) ?? bytesValue(message.payload) ?? (text !== null ? encodeUTF8(text) : new Uint8Array(0));
+
+		messages.push({
+			type: outgoing === true ? 'send' : 'receive',
+			opcode: numberValue(message.opcode) ?? numberValue(message.type) ?? (text !== null ? 1 : 2),
+			time: dateValue(message.time) ?? dateValue(message.timestamp),
+			data
+		});
+	}
+
+	return messages.sort((a, b) => (a.time?.getTime() ?? 0) - (b.time?.getTime() ?? 0));
+}
+
+// * Used when no field has a known name. Any list of objects with "WebSocket" in their
+// * class name is treated as the message list
+function findWebSocketMessages(fields: Record<string, JavaValue>): CharlesWebSocketMessage[] | null {
+	for (const value of Object.values(fields)) {
+		if (listValues(value)?.some(isWebSocketMessage)) {
+			return webSocketMessageValues(value);
+		}
+	}
+
+	return null;
+}
+
+function isWebSocketMessage(value: unknown): value is JavaObject {
+	return value instanceof JavaObject && value.classDesc?.className.value.includes('WebSocket') === true;
+}
+
+function compareStartTime(a: CharlesTransaction, b: CharlesTransaction): number {
+	return (a.timings.start?.getTime() ?? 0) - (b.timings.start?.getTime() ?? 0);
+}
+
+function instanceOf(object: JavaObject, className: string): boolean {
+	return object.hierarchy().some(classDesc => classDesc.className.value === className);
+}
+
+// * Children of a ModelNode. Stored in a java.util.ArrayList, which writes its
+// * elements using writeObject after a block of data holding its capacity
+function children(node: JavaObject): JavaObject[] {
+	const list = node.getClassData(MODEL_NODE_CLASS)?.values.children;
+
+	return (listValues(list) ?? []).filter((child): child is JavaObject => child instanceof JavaObject);
+}
+
+// * Field values of every level of the class hierarchy. Fields of sub-classes
+// * take priority over fields of the same name in super-classes
+function fieldValues(object: JavaObject): Record<string, JavaValue> {
+	const values: Record<string, JavaValue> = {};
+
+	for (const classDesc of object.hierarchy().reverse()) {
+		Object.assign(values, object.getClassData(classDesc)?.values);
+	}
+
+	return values;
+}
+
+function findField(fields: Record<string, JavaValue>, names: string[]): FoundField | null {
+	const name = names.find(name => name in fields);
+
+	return name !== undefined ? { value: fields[name] } : null;
+}
+
+// * Elements of arrays and collections. Falls back to the objects written by the first
+// * class in the hierarchy which uses writeObject, for unknown collections. Null if the
+// * value is not a list
+function listValues(value: unknown): unknown[] | null {
+	if (value instanceof JavaArray) {
+		return Array.isArray(value.values) ? value.values : null;
+	}
+
+	if (!(value instanceof JavaObject)) {
+		return null;
+	}
+
+	const decoded: unknown = decode(value);
+
+	if (Array.isArray(decoded) || decoded instanceof Set) {
+		return Array.from(decoded);
+	}
+
+	for (const classDesc of value.hierarchy()) {
+		const annotation = value.getClassData(classDesc)?.annotation ?? [];
+
+		if (annotation.length !== 0) {
+			return annotation.filter(element => !(element instanceof BlockData));
+		}
+	}
+
+	return null;
+}
+
+function stringValue(value: unknown): string | null {
+	if (value instanceof JavaString) {
+		return value.value;
+	}
+
+	if (typeof value === 'string') {
+		return value;
+	}
+
+	if (value instanceof JavaObject) {
+		// * Boxed values, such as java.lang.Integer
+		const decoded: unknown = decode(value);
+
+		if (typeof decoded === 'string' || typeof decoded === 'number' || typeof decoded === 'bigint' || typeof decoded === 'boolean') {
+			return String(decoded);
+		}
+	}
+
+	return null;
+}
+
+function numberValue(value: unknown): number | null {
+	if (typeof value === 'number') {
+		return value;
+	}
+
+	if (typeof value === 'bigint') {
+		return Number(value);
+	}
+
+	if (value instanceof JavaObject) {
+		// * Boxed values, such as java.lang.Long
+		const decoded: unknown = decode(value);
+
+		return decoded instanceof JavaObject ? null : numberValue(decoded);
+	}
+
+	return null;
+}
+
+// * Times are either stored as milliseconds, or as java.util.Date objects
+function dateValue(value: unknown): Date | null {
+	if (typeof value === 'bigint' || typeof value === 'number') {
+		return new Date(Number(value));
+	}
+
+	const decoded: unknown = value instanceof JavaObject ? decode(value) : null;
+
+	return decoded instanceof Date ? decoded : null;
+}
+
+function bytesValue(value: unknown): Uint8Array | null {
+	if (value instanceof JavaArray && value.classDesc?.className.value === '[B') {
+		return encodePrimitiveArray('B', value.values);
+	}
+
+	if (value instanceof JavaObject) {
+		// * Bodies wrapped in another object. Use the first byte array found
+		for (const field of Object.values(fieldValues(value))) {
+			const bytes = bytesValue(field);
+
+			if (bytes) {
+				return bytes;
+			}
+		}
+	}
+
+	return null;
+}
+
+// * Addresses are either strings, or java.net.InetAddress objects. IPv4 addresses are
+// * stored as an int in "address", and IPv6 addresses as a byte[] in "ipaddress"
+function addressValue(value: unknown): string | null {
+	if (!(value instanceof JavaObject) || !instanceOf(value, INET_ADDRESS_CLASS)) {
+		return stringValue(value);
+	}
+
+	const ipv6 = bytesValue(value.getClassData(INET6_ADDRESS_CLASS)?.values.ipaddress);
+
+	if (ipv6 !== null && ipv6.length === 16) {
+		const groups: string[] = [];
+
+		for (let i = 0; i < 16; i += 2) {
+			groups.push(((ipv6[i] << 8) | ipv6[i + 1]).toString(16));
+		}
+
+		return groups.join(':');
+	}
+
+	const ipv4 = numberValue(value.getClassData(INET_ADDRESS_CLASS)?.values.address);
+
+	if (ipv4 !== null) {
+		return [24, 16, 8, 0].map(shift => (ipv4 >>> shift) & 0xFF).join('.');
+	}
+
+	return stringValue(value.getClassData(INET_ADDRESS_CLASS)?.values.hostName);
+}
+
+// * Exceptions are java.lang.Throwable objects, which store their message in "detailMessage"
+function exceptionValue(value: unknown): string | null {
+	if (!(value instanceof JavaObject)) {
+		return stringValue(value);
+	}
+
+	const message = stringValue(fieldValues(value).detailMessage);
+	const className = value.classDesc?.className.value ?? 'Exception';
+
+	return message ? `${className}: ${message}` : className;
+}
+
+// * Headers are stored as a first line ("GET / HTTP/1.1" or "HTTP/1.1 200 OK")
+// * followed by name/value pairs
+function firstLine(value: unknown): string | null {
+	if (!(value instanceof JavaObject)) {
+		return null;
+	}
+
+	return stringValue(fieldValues(value).firstLine);
+}
+
+// * Headers are either a list of objects with name and value fields, or written using
+// * writeObject/writeExternal as alternating names and values. Null if neither is found
+function headerValues(value: unknown): CharlesHeader[] | null {
+	if (!(value instanceof JavaObject)) {
+		return null;
+	}
+
+	for (const field of Object.values(fieldValues(value))) {
+		const list = listValues(field);
+
+		if (list === null) {
+			continue;
+		}
+
+		const headers: CharlesHeader[] = [];
+
+		for (const element of list) {
+			const header = element instanceof JavaObject ? fieldValues(element) : {};
+			const name = stringValue(header.name);
+
+			if (name !== null) {
+				headers.push({ name, value: stringValue(header.value) ?? '' });
+			}
+		}
+
+		return headers;
+	}
+
+	const strings = listValues(value)?.map(stringValue).filter((string): string is string => string !== null);
+
+	if (!strings) {
+		return null;
+	}
+
+	const headers: CharlesHeader[] = [];
+
+	for (let i = 0; i + 1 < strings.length; i += 2) {
+		headers.push({ name: strings[i], value: strings[i + 1] });
+	}
+
+	return headers;
+}
@@ -0,0 +1,326 @@
+// * Converts Charles sessions to HAR 1.2, the format used by browser dev tools.
+// * See http://www.softwareishard.com/blog/har-12-spec/
+// *
+// * WebSocket frames are exported in the "_webSocketMessages" custom field, the
+// * same way Chrome exports them
+
+import { toBase64, decodeUTF8 } from '@/bytes';
+import type { CharlesSession, CharlesTransaction, CharlesHeader } from '@/charles/charles-session';
+
+export interface HarOptions {
+	creator?: {
+		name: string;
+		version: string;
+	};
+};
+
+export interface Har {
+	log: HarLog;
+};
+
+export interface HarLog {
+	version: '1.2';
+	creator: {
+		name: string;
+		version: string;
+	};
+	entries: HarEntry[];
+};
+
+export interface HarEntry {
+	startedDateTime: string;
+	time: number; // * Milliseconds
+	request: HarRequest;
+	response: HarResponse;
+	cache: Record<string, never>;
+	timings: HarTimings;
+	serverIPAddress?: string;
+	_webSocketMessages?: HarWebSocketMessage[];
+};
+
+export interface HarRequest {
+	method: string;
+	url: string;
+	httpVersion: string;
+	cookies: HarCookie[];
+	headers: HarHeader[];
+	queryString: HarQueryString[];
+	postData?: HarPostData;
+	headersSize: number;
+	bodySize: number;
+};
+
+export interface HarResponse {
+	status: number;
+	statusText: string;
+	httpVersion: string;
+	cookies: HarCookie[];
+	headers: HarHeader[];
+	content: HarContent;
+	redirectURL: string;
+	headersSize: number;
+	bodySize: number;
+	_error?: string;
+};
+
+export interface HarHeader {
+	name: string;
+	value: string;
+};
+
+export interface HarCookie {
+	name: string;
+	value: string;
+};
+
+export interface HarQueryString {
+	name: string;
+	value: string;
+};
+
+export interface HarPostData {
+	mimeType: string;
+	text: string;
+	encoding?: 'base64'; // * Non-standard, but understood by most HAR readers
+};
+
+export interface HarContent {
+	size: number;
+	mimeType: string;
+	text?: string;
+	encoding?: 'base64';
+};
+
+export interface HarTimings {
+	blocked: number;
+	dns: number;
+	connect: number;
+	ssl: number;
+	send: number;
+	wait: number;
+	receive: number;
+};
+
+export interface HarWebSocketMessage {
+	type: 'send' | 'receive';
+	time: number; // * Seconds since the epoch
+	opcode: number;
+	data: string; // * Base64 encoded for binary frames
+};
+
+// * Keep in sync with package.json
+const DEFAULT_CREATOR = {
+	name: '@pretendonetwork/java.io',
+	version: '1.0.0'
+};
+
+// * Content types which are safe to export as text, as long as the body is valid UTF-8
+const TEXT_MIME_TYPES = /^(text\/|application\/(json|xml|javascript|x-www-form-urlencoded|[\w.+-]+\+(json|xml)))/i;
+
+export function toHAR(session: CharlesSession, options: HarOptions = {}): Har {
+	return {
+		log: {
+			version: '1.2',
+			creator: options.creator ?? DEFAULT_CREATOR,
+			entries: session.transactions.map(toHAREntry)
+		}
+	};
+}
+
+function toHAREntry(transaction: CharlesTransaction): HarEntry {
+	const { timings } = transaction;
+	const start = timings.start ?? timings.requestBegin;
+	const httpVersion = transaction.protocolVersion ?? 'HTTP/1.1';
+	const requestHeaders = transaction.requestHeaders ?? []; // * HAR has no way to mark headers as unknown
+	const responseHeaders = transaction.responseHeaders ?? [];
+	const requestMimeType = headerValue(requestHeaders, 'Content-Type') ?? '';
+	const responseMimeType = headerValue(responseHeaders, 'Content-Type') ?? '';
+
+	const entry: HarEntry = {
+		startedDateTime: (start ?? new Date(0)).toISOString(),
+		time: Math.max(duration(start, timings.end), 0),
+		request: {
+			method: transaction.method ?? '', // * Unknown methods are left empty rather than guessed
+			url: transaction.url,
+			httpVersion,
+			cookies: requestCookies(requestHeaders),
+			headers: requestHeaders.map(({ name, value }) => ({ name, value })),
+			queryString: queryStringValues(transaction.query),
+			headersSize: -1,
+			bodySize: bodySize(transaction.requestBody)
+		},
+		response: {
+			status: transaction.status ?? 0,
+			statusText: transaction.statusText ?? '',
+			httpVersion,
+			cookies: responseCookies(responseHeaders),
+			headers: responseHeaders.map(({ name, value }) => ({ name, value })),
+			content: {
+				size: transaction.responseBody?.length ?? 0,
+				mimeType: responseMimeType
+			},
+			redirectURL: headerValue(responseHeaders, 'Location') ?? '',
+			headersSize: -1,
+			bodySize: bodySize(transaction.responseBody)
+		},
+		cache: {},
+		timings: {
+			blocked: -1,
+			dns: transaction.timings.dns ?? -1,
+			connect: transaction.timings.connect ?? -1,
+			ssl: transaction.timings.ssl ?? -1,
+			send: Math.max(duration(timings.requestBegin, timings.requestComplete), 0),
+			wait: Math.max(duration(timings.requestComplete, timings.responseBegin), 0),
+			receive: Math.max(duration(timings.responseBegin, timings.end), 0)
+		}
+	};
+
+	if (transaction.requestBody) {
+		entry.request.postData = {
+			mimeType: requestMimeType,
+			...encodeBody(transaction.requestBody, requestMimeType)
+		};
+	}
+
+	if (transaction.responseBody) {
+		Object.assign(entry.response.content, encodeBody(transaction.responseBody, responseMimeType));
+	}
+
+	if (transaction.exception) {
+		entry.response._error = transaction.exception;
+	}
+
+	if (transaction.remoteAddress) {
+		entry.serverIPAddress = transaction.remoteAddress;
+	}
+
+	if (transaction.webSocketMessages && transaction.webSocketMessages.length !== 0) {
+		entry._webSocketMessages = transaction.webSocketMessages.map(message => {
+			// * Text frames which are not valid UTF-8 are exported as binary frames. Control
+			// * frames, such as close, ping and pong, keep their opcode and are base64 encoded
+			const text = message.opcode === 1 ? decodeUTF8(message.data) : null;
+			const opcode = message.opcode === 1 && text === null ? 2 : message.opcode;
+
+			return {
+				type: message.type,
+				time: (message.time?.getTime() ?? 0) / 1000,
+				opcode,
+				data: text ?? toBase64(message.data)
+			};
+		});
+	}
+
+	return entry;
+}
+
+// * Bodies are exported as text if they are textual and valid UTF-8, and as base64 otherwise
+function encodeBody(body: Uint8Array, mimeType: string): { text: string; encoding?: 'base64'; } {
+	const text = TEXT_MIME_TYPES.test(mimeType) ? decodeUTF8(body) : null;
+
+	if (text !== null) {
+		return { text };
+	}
+
+	return {
+		text: toBase64(body),
+		encoding: 'base64'
+	};
+}
+
+// * HAR uses -1 for sizes which are unknown. A body which is known to be empty is 0
+function bodySize(body: Uint8Array | null): number {
+	return body?.length ?? -1;
+}
+
+// * Milliseconds between two times, or -1 if either is unknown
+function duration(from: Date | null, to: Date | null): number {
+	if (!from || !to) {
+		return -1;
+	}
+
+	return to.getTime() - from.getTime();
+}
+
+function headerValue(headers: CharlesHeader[], name: string): string | null {
+	const header = headers.find(header => header.name.toLowerCase() === name.toLowerCase());
+
+	return header?.value ?? null;
+}
+
+function queryStringValues(query: string | null): HarQueryString[] {
+	if (!query) {
+		return [];
+	}
+
+	return query.split('&').filter(pair => pair.length !== 0).map(pair => {
+		const index = pair.indexOf('=');
+		const name = index === -1 ? pair : pair.slice(0, index);
+		const value = index === -1 ? '' : pair.slice(index + 1);
+
+		return {
+			name: decodeQueryComponent(name),
+			value: decodeQueryComponent(value)
+		};
+	});
+}
+
+function decodeQueryComponent(value: string): string {
+	try {
+		return decodeURIComponent(value.replace(/\+/g, ' '));
+	} catch {
+		return value; // * Leave malformed escapes as-is
+	}
+}
+
+// * Cookie: a=1; b=2
+function requestCookies(headers: CharlesHeader[]): HarCookie[] {
+	const cookies: HarCookie[] = [];
+
+	for (const header of headers) {
+		if (header.name.toLowerCase() !== 'cookie') {
+			continue;
+		}
+
+		for (const pair of header.value.split(';')) {
+			const cookie = parseCookie(pair);
+
+			if (cookie) {
+				cookies.push(cookie);
+			}
+		}
+	}
+
+	return cookies;
+}
+
+// * Set-Cookie: a=1; Path=/; HttpOnly. Only the name and value are exported
+function responseCookies(headers: CharlesHeader[]): HarCookie[] {
+	const cookies: HarCookie[] = [];
+
+	for (const header of headers) {
+		if (header.name.toLowerCase() !== 'set-cookie') {
+			continue;
+		}
+
+		const cookie = parseCookie(header.value.split(';')[0]);
+
+		if (cookie) {
+			cookies.push(cookie);
+		}
+	}
+
+	return cookies;
+}
+
+function parseCookie(pair: string): HarCookie | null {
+	const index = pair.indexOf('=');
+
+	if (index === -1) {
+		return null;
+	}
+
+	return {
+		name: pair.slice(0, index).trim(),
+		value: pair.slice(index + 1).trim()
+	};
+}
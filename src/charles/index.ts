@@ -0,0 +1,9 @@
+export { readCharlesSession } from '@/charles/charles-session';
+export { CharlesSession } from '@/charles/charles-session';
+export { CharlesHost } from '@/charles/charles-session';
+export { CharlesTransaction } from '@/charles/charles-session';
+
+export { toHAR } from '@/charles/har';
+
+export type { CharlesHeader, CharlesTimings, CharlesWebSocketMessage, CharlesTransactionProperty } from '@/charles/charles-session';
+export type { Har, HarLog, HarEntry, HarRequest, HarResponse, HarHeader, HarCookie, HarQueryString, HarPostData, HarContent, HarTimings, HarWebSocketMessage, HarOptions } from '@/charles/har';
\ No newline at end of file
@@ -0,0 +1,191 @@
+// * InputStream which is fed chunks of data as they arrive, such as from a socket. Chunks
+// * are queued, and reads are served synchronously from whatever has been buffered so far.
+// * Reading past the buffered data throws an InsufficientDataError until "end" is called,
+// * so reads can be retried once more data has arrived
+
+import BaseInputStream from '@/base-input-stream';
+import { EndOfDataError, InsufficientDataError } from '@/errors';
+import { concatBytes, encodeUTF8 } from '@/bytes';
+import type { AsyncInputStream } from '@/types/input-stream';
+
+export default class ChunkedInputStream extends BaseInputStream implements AsyncInputStream {
+	private chunks: Uint8Array[] = [];
+	private buffered = 0; // * Number of unread bytes across all queued chunks
+	private offset = 0;
+	private ended = false;
+	private error: Error | null = null;
+	private waiters: (() => boolean)[] = [];
+	private marked: Uint8Array[] | null = null; // * Data read since the last mark
+	private markedLength = 0;
+
+	// * Strings are encoded as UTF-8
+	public push(chunk: Uint8Array | string): void {
+		if (this.ended) {
+			throw new Error('Cannot push data. Stream has ended');
+		}
+
+		const data = typeof chunk === 'string' ? encodeUTF8(chunk) : chunk;
+
+		if (data.length !== 0) {
+			this.chunks.push(data);
+			this.buffered += data.length;
+		}
+
+		this.notify();
+	}
+
+	// * Marks that no more data will arrive
+	public end(): void {
+		this.ended = true;
+		this.notify();
+	}
+
+	// * Ends the stream with an error. The error is thrown by every read after this
+	public destroy(error: Error): void {
+		this.error = error;
+		this.ended = true;
+		this.notify();
+	}
+
+	// * Resolves once at least "length" unread bytes are buffered, or once the
+	// * stream has ended. Rejects if the stream was destroyed
+	public waitFor(length: number): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const check = (): boolean => {
+				if (this.error) {
+					reject(this.error);
+					return true;
+				}
+
+				if (this.buffered >= length || this.ended) {
+					resolve();
+					return true;
+				}
+
+				return false;
+			};
+
+			if (!check()) {
+				this.waiters.push(check);
+			}
+		});
+	}
+
+	// * Resolves once the stream has ended and all of its data is buffered
+	public waitForEnd(): Promise<void> {
+		return this.waitFor(Infinity);
+	}
+
+	// * Number of unread bytes currently buffered
+	public available(): number {
+		return this.buffered;
+	}
+
+	// * Starts remembering data as it is read, so "reset" can rewind back to this point.
+	// * Replaces any previous mark
+	public mark(): void {
+		this.marked = [];
+		this.markedLength = 0;
+	}
+
+	// * The data read since the mark is queued again as-is, rather than copied into one chunk
+	public reset(): void {
+		if (!this.marked) {
+			throw new Error('Cannot reset stream. Stream has not been marked');
+		}
+
+		this.chunks = this.marked.filter(chunk => chunk.length !== 0).concat(this.chunks);
+		this.buffered += this.markedLength;
+		this.offset -= this.markedLength;
+		this.marked = null;
+	}
+
+	public isEnded(): boolean {
+		return this.ended;
+	}
+
+	public hasDataLeft(): boolean {
+		return this.buffered > 0 || !this.ended;
+	}
+
+	public pos(): number {
+		return this.offset;
+	}
+
+	public peek(): number {
+		this.ensureAvailable(1);
+
+		return this.chunks[0][0];
+	}
+
+	public skip(offset: number): void {
+		this.read(offset);
+	}
+
+	public read(len: number): Uint8Array {
+		this.ensureAvailable(len);
+
+		let data: Uint8Array;
+
+		if (len === 0) {
+			data = new Uint8Array(0);
+		} else if (this.chunks[0].length >= len) {
+			data = this.chunks[0].subarray(0, len);
+			this.chunks[0] = this.chunks[0].subarray(len);
+		} else {
+			const parts: Uint8Array[] = [];
+			let remaining = len;
+
+			while (remaining > 0) {
+				const chunk = this.chunks[0];
+				const part = chunk.subarray(0, remaining);
+
+				parts.push(part);
+				remaining -= part.length;
+				this.chunks[0] = chunk.subarray(part.length);
+
+				if (this.chunks[0].length === 0) {
+					this.chunks.shift();
+				}
+			}
+
+			data = concatBytes(parts, len);
+		}
+
+		if (this.chunks.length !== 0 && this.chunks[0].length === 0) {
+			this.chunks.shift();
+		}
+
+		this.buffered -= len;
+		this.offset += len;
+
+		if (this.marked) {
+			this.marked.push(data);
+			this.markedLength += len;
+		}
+
+		return data;
+	}
+
+	private notify(): void {
+		this.waiters = this.waiters.filter(check => !check());
+	}
+
+	private ensureAvailable(len: number): void {
+		if (this.error) {
+			throw this.error;
+		}
+
+		if (len < 0) {
+			throw new RangeError(`Invalid length ${len}`);
+		}
+
+		if (len > this.buffered) {
+			if (this.ended) {
+				throw new EndOfDataError(`Cannot read ${len} bytes. Only ${this.buffered} bytes left`, this.offset);
+			}
+
+			throw new InsufficientDataError(`Cannot read ${len} bytes. Only ${this.buffered} bytes buffered so far`, this.offset, len - this.buffered);
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+// * Matches class names against patterns, using the same pattern syntax as Java's
+// * jdk.serialFilter (see https://docs.oracle.com/en/java/javase/11/core/serialization-filtering1.html)
+// *
+// *   - "com.example.Class" matches the class exactly
+// *   - "com.example.*" matches every class in the package, but not in sub-packages
+// *   - "com.example.**" matches every class in the package and its sub-packages
+// *   - "com.example.Prefix*" matches every class name starting with "com.example.Prefix"
+// *
+// * Array classes are matched by their component type, such as "com.example.Class" for
+// * "[[Lcom.example.Class;". Arrays of primitives have no class to match
+
+export function matchesClassPattern(className: string, pattern: string): boolean {
+	if (pattern.endsWith('.**')) {
+		return className.startsWith(pattern.slice(0, -2));
+	}
+
+	if (pattern.endsWith('.*')) {
+		const pkg = pattern.slice(0, -1);
+
+		return className.startsWith(pkg) && !className.slice(pkg.length).includes('.');
+	}
+
+	if (pattern.endsWith('*')) {
+		return className.startsWith(pattern.slice(0, -1));
+	}
+
+	return className === pattern;
+}
+
+// * Returns the class name arrays are matched by, or null for arrays of primitives
+export function componentClassName(className: string): string | null {
+	if (!className.startsWith('[')) {
+		return className;
+	}
+
+	const component = className.replace(/^\[+/, '');
+
+	if (component.startsWith('L') && component.endsWith(';')) {
+		return component.slice(1, -1);
+	}
+
+	return null;
+}
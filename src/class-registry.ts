@@ -0,0 +1,57 @@
+// * Maps Java class names, optionally pinned to a specific serialVersionUID, to values.
+// * Used for anything which needs to be looked up per serialized class, such as
+// * external content readers
+
+export default class ClassRegistry<T> {
+	private entries = new Map<string, { any?: T; versions: Map<bigint, T> }>();
+
+	// * Registers a value for the given class name. If a serialVersionUID is given the
+	// * value is only used for that version of the class. Version specific values take
+	// * priority over ones registered for all versions
+	public register(className: string, value: T, serialVersionUID?: bigint): this {
+		let entry = this.entries.get(className);
+
+		if (!entry) {
+			entry = { versions: new Map() };
+			this.entries.set(className, entry);
+		}
+
+		if (serialVersionUID === undefined) {
+			entry.any = value;
+		} else {
+			entry.versions.set(serialVersionUID, value);
+		}
+
+		return this;
+	}
+
+	public unregister(className: string, serialVersionUID?: bigint): this {
+		const entry = this.entries.get(className);
+
+		if (!entry) {
+			return this;
+		}
+
+		if (serialVersionUID === undefined) {
+			entry.any = undefined;
+		} else {
+			entry.versions.delete(serialVersionUID);
+		}
+
+		return this;
+	}
+
+	public get(className: string, serialVersionUID: bigint): T | undefined {
+		const entry = this.entries.get(className);
+
+		if (!entry) {
+			return undefined;
+		}
+
+		return entry.versions.get(serialVersionUID) ?? entry.any;
+	}
+
+	public has(className: string, serialVersionUID: bigint): boolean {
+		return this.get(className, serialVersionUID) !== undefined;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+
+// * Command-line tool for inspecting and converting serialized Java files. Reads from a
+// * file, or from stdin if no file (or "-") is given, and writes to stdout. Parse errors
+// * are printed with the offset they happened at, and exit with a non-zero code. Like
+// * SerializationDumper, "dump" prints whatever it dumped before the error first
+
+import ObjectInputStream, {
+	JavaObject,
+	JavaProxyClassDesc
+} from '@/object-input-stream';
+import BufferInputStream from '@/buffer-input-stream';
+import FileInputStream from '@/file-input-stream';
+import toPlain from '@/to-plain';
+import { dumpLines } from '@/dump';
+import { collectClassDescs } from '@/schema-registry';
+import { diff, formatDiff } from '@/diff';
+import { scanGadgets, formatGadgetReport } from '@/gadget-scanner';
+import { readCharlesSession, toHAR } from '@/charles';
+import type InputStream from '@/types/input-stream';
+
+const USAGE = `Usage: java-io <command> [options] [file]
+
+Reads from stdin if no file, or "-", is given.
+
+Commands:
+  dump [--offsets] [file]     Print the stream in the same format as SerializationDumper
+  json [--lenient] [file]     Convert every top-level element to JSON
+  classes [file]              List every class description with its serialVersionUID, flags and fields
+  diff [--json] <a> <b>       Compare the objects and class descriptions of two files
+  scan [--json] [file]        Look for classes used by known gadget chains. Exits with 3 if any are found
+  charles har <file.chls>     Convert a Charles session to HAR
+`;
+
+const FLAG_NAMES: [number, string][] = [
+	[0x01, 'SC_WRITE_METHOD'],
+	[0x02, 'SC_SERIALIZABLE'],
+	[0x04, 'SC_EXTERNALIZABLE'],
+	[0x08, 'SC_BLOCKDATA'],
+	[0x10, 'SC_ENUM']
+];
+
+class UsageError extends Error {}
+
+// * Commands which report their result through the exit code, as well as their output
+interface CommandResult {
+	output: string;
+	code: number;
+	error?: unknown; // * Printed after the output
+};
+
+const openedFiles: FileInputStream[] = []; // * Closed once the command has finished
+
+main(process.argv.slice(2)).then(code => {
+	process.exitCode = code;
+});
+
+async function main(args: string[]): Promise<number> {
+	try {
+		const result = await run(args);
+		const { output, code, error } = typeof result === 'string' ? { output: result, code: 0, error: undefined } : result;
+
+		process.stdout.write(output);
+
+		if (error !== undefined) {
+			printError(error);
+		}
+
+		return code;
+	} catch (error) {
+		if (error instanceof UsageError) {
+			process.stderr.write(`java-io: ${error.message}\n\n${USAGE}`);
+			return 2;
+		}
+
+		printError(error);
+		return 1;
+	} finally {
+		for (const file of openedFiles) {
+			file.close();
+		}
+	}
+}
+
+function printError(error: unknown): void {
+	process.stderr.write(`java-io: ${error instanceof Error ? error.message : String(error)}\n`);
+}
+
+async function run(args: string[]): Promise<string | CommandResult> {
+	const [command, ...rest] = args;
+	const flags = rest.filter(arg => arg.startsWith('--'));
+	const files = rest.filter(arg => !arg.startsWith('--'));
+
+	if (command === undefined || command === '--help' || command === '-h') {
+		return USAGE;
+	}
+
+	switch (command) {
+		case 'dump': {
+			checkFlags(flags, ['--offsets']);
+
+			const stream = await openInput(files);
+			const lines: string[] = [];
+
+			try {
+				for (const line of dumpLines(stream, { offsets: flags.includes('--offsets') })) {
+					lines.push(line);
+				}
+			} catch (error) {
+				return {
+					output: lines.length !== 0 ? lines.join('\n') + '\n' : '',
+					code: 1,
+					error
+				};
+			}
+
+			return lines.join('\n') + '\n';
+		}
+		case 'json': {
+			checkFlags(flags, ['--lenient']);
+
+			const ois = new ObjectInputStream(await openInput(files), {
+				lenient: flags.includes('--lenient')
+			});
+			const elements = ois.readAll();
+
+			for (const diagnostic of ois.diagnostics) {
+				process.stderr.write(`java-io: ${diagnostic.error.message}\n`);
+			}
+
+			return JSON.stringify(toPlain(elements), null, 2) + '\n';
+		}
+		case 'classes':
+			checkFlags(flags, []);
+
+			return formatClasses(new ObjectInputStream(await openInput(files)).readAll());
+		case 'diff': {
+			checkFlags(flags, ['--json']);
+
+			if (files.length !== 2) {
+				throw new UsageError('diff needs exactly 2 files');
+			}
+
+			const before = new ObjectInputStream(await openInput([files[0]])).readAll();
+			const after = new ObjectInputStream(await openInput([files[1]])).readAll();
+
+			return formatDiff(diff(before, after), flags.includes('--json') ? 'json' : 'text');
+		}
+		case 'scan': {
+			checkFlags(flags, ['--json']);
+
+			// * Lenient, so classes before a malformed part of the stream are still scanned
+			const ois = new ObjectInputStream(await openInput(files), { lenient: true });
+			const report = scanGadgets(ois.readAll());
+
+			for (const diagnostic of ois.diagnostics) {
+				process.stderr.write(`java-io: ${diagnostic.error.message}\n`);
+			}
+
+			return {
+				output: formatGadgetReport(report, flags.includes('--json') ? 'json' : 'text'),
+				code: report.findings.length !== 0 ? 3 : 0
+			};
+		}
+		case 'charles': {
+			const [subcommand, ...charlesFiles] = files;
+
+			if (subcommand !== 'har') {
+				throw new UsageError(`Unknown charles command ${subcommand ?? ''}`.trimEnd());
+			}
+
+			checkFlags(flags, []);
+
+			const [session] = new ObjectInputStream(await openInput(charlesFiles)).readAll();
+
+			if (!(session instanceof JavaObject)) {
+				throw new Error('Expected a Charles session as the first element of the stream');
+			}
+
+			return JSON.stringify(toHAR(readCharlesSession(session)), null, 2) + '\n';
+		}
+
+		default:
+			throw new UsageError(`Unknown command ${command}`);
+	}
+}
+
+function checkFlags(flags: string[], allowed: string[]): void {
+	const unknown = flags.find(flag => !allowed.includes(flag));
+
+	if (unknown) {
+		throw new UsageError(`Unknown option ${unknown}`);
+	}
+}
+
+async function openInput(files: string[]): Promise<InputStream> {
+	if (files.length > 1) {
+		throw new UsageError('Only one file can be read at a time');
+	}
+
+	const [file] = files;
+
+	if (file !== undefined && file !== '-') {
+		const stream = new FileInputStream(file);
+
+		openedFiles.push(stream);
+
+		return stream;
+	}
+
+	const chunks: Buffer[] = [];
+
+	for await (const chunk of process.stdin) {
+		chunks.push(chunk);
+	}
+
+	return new BufferInputStream(Buffer.concat(chunks));
+}
+
+// * Lists class descriptions in the order they are first found in the graph
+function formatClasses(elements: unknown[]): string {
+	const lines: string[] = [];
+
+	for (const classDesc of collectClassDescs(elements)) {
+		const superClass = classDesc.info.superClass;
+		const flags = FLAG_NAMES.filter(([flag]) => classDesc.hasFlag(flag)).map(([, name]) => name);
+
+		if (classDesc instanceof JavaProxyClassDesc) {
+			lines.push(`proxy implements ${classDesc.interfaces.join(', ')}`);
+		} else {
+			lines.push(`class ${classDesc.className.value}${superClass ? ` extends ${superClass.className.value}` : ''}`);
+		}
+
+		lines.push(`  serialVersionUID: ${classDesc.serialVersionUID}`);
+		lines.push(`  flags: 0x${classDesc.info.flags.toString(16).padStart(2, '0')}${flags.length !== 0 ? ` ${flags.join(' | ')}` : ''}`);
+
+		for (const field of classDesc.info.fields) {
+			lines.push(`  ${field.className1?.value ?? field.typeCode} ${field.name}`);
+		}
+
+		lines.push('');
+	}
+
+	return lines.join('\n');
+}
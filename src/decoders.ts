@@ -0,0 +1,301 @@
+// * Decoders for common java.util and java.lang classes, turning them into native values.
+// *
+// * Most collections are written using writeObject, which stores their sizes in block data
+// * followed by their elements in the class annotation. For example java.util.ArrayList
+// * writes "[BlockData(size), element, element, ...]". Decoders read this data back into
+// * Array, Map, Set, Date and bigint values. Objects without a decoder are left as-is
+
+import ClassRegistry from '@/class-registry';
+import AnnotationCursor from '@/annotation-cursor';
+import { encodePrimitiveArray } from '@/primitive-arrays';
+import { dataView, toHex } from '@/bytes';
+import {
+	JavaObject,
+	JavaString,
+	JavaArray,
+	JavaEnum,
+	BlockData
+} from '@/object-input-stream';
+import type Decoder from '@/types/decoder';
+import type { DecoderContext } from '@/types/decoder';
+import type JavaValue from '@/types/java-value';
+
+const DEFAULT_DECODERS = createDefaultDecoders();
+
+// * Returns a new registry of the built-in decoders, which can be extended with custom decoders
+export function createDefaultDecoders(): ClassRegistry<Decoder> {
+	const decoders = new ClassRegistry<Decoder>();
+
+	decoders.register('java.util.ArrayList', listDecoder('java.util.ArrayList'));
+	decoders.register('java.util.LinkedList', listDecoder('java.util.LinkedList'));
+	decoders.register('java.util.Vector', decodeVector);
+	decoders.register('java.util.HashMap', mapDecoder('java.util.HashMap'));
+	decoders.register('java.util.LinkedHashMap', mapDecoder('java.util.HashMap'));
+	decoders.register('java.util.TreeMap', mapDecoder('java.util.TreeMap'));
+	decoders.register('java.util.Hashtable', mapDecoder('java.util.Hashtable'));
+	decoders.register('java.util.HashSet', setDecoder('java.util.HashSet'));
+	decoders.register('java.util.LinkedHashSet', setDecoder('java.util.HashSet'));
+	decoders.register('java.util.TreeSet', setDecoder('java.util.TreeSet'));
+	decoders.register('java.util.Date', decodeDate);
+	decoders.register('java.util.UUID', decodeUUID);
+	decoders.register('java.math.BigInteger', decodeBigInteger);
+	decoders.register('java.math.BigDecimal', decodeBigDecimal);
+	decoders.register('java.net.URL', decodeURL);
+	decoders.register('java.net.URI', decodeURI);
+
+	for (const className of ['Boolean', 'Byte', 'Character', 'Short', 'Integer', 'Long', 'Float', 'Double']) {
+		decoders.register(`java.lang.${className}`, boxedDecoder(`java.lang.${className}`));
+	}
+
+	return decoders;
+}
+
+// * Finds the decoder for an object. Decoders registered for a super-class also apply
+// * to its subclasses, such as java.util.Stack using the java.util.Vector decoder. The
+// * most specific decoder wins
+export function findDecoder(object: JavaObject, decoders: ClassRegistry<Decoder> = DEFAULT_DECODERS): Decoder | undefined {
+	for (const classDesc of object.hierarchy()) {
+		const decoder = decoders.get(classDesc.className.value, classDesc.serialVersionUID);
+
+		if (decoder) {
+			return decoder;
+		}
+	}
+
+	return undefined;
+}
+
+// * Recursively decodes a value. Strings and enum constants become strings, arrays become
+// * Arrays, and objects with a decoder become native values. Objects which appear more than
+// * once decode to the same value. Decoders only build their result once their contents are
+// * decoded, so a collection which contains itself is left as the original object inside of itself
+export function decode<T = unknown>(value: unknown, decoders: ClassRegistry<Decoder> = DEFAULT_DECODERS): T {
+	const decoded = new Map<object, unknown>();
+	const decoding = new Set<JavaObject>();
+
+	const context: DecoderContext = {
+		decode(value) {
+			if (value instanceof JavaString) {
+				return value.value;
+			}
+
+			if (value instanceof JavaEnum) {
+				return value.constant.value;
+			}
+
+			if (value instanceof JavaArray) {
+				// * Primitive arrays are already read into typed arrays and strings
+				if (!Array.isArray(value.values)) {
+					return value.values;
+				}
+
+				if (!decoded.has(value)) {
+					const values: unknown[] = [];
+
+					// * Registered before decoding the elements, so arrays which contain themselves resolve
+					decoded.set(value, values);
+
+					for (const element of value.values) {
+						values.push(context.decode(element));
+					}
+				}
+
+				return decoded.get(value);
+			}
+
+			if (Array.isArray(value)) {
+				return value.map(element => context.decode(element));
+			}
+
+			if (!(value instanceof JavaObject)) {
+				return value;
+			}
+
+			if (decoded.has(value)) {
+				return decoded.get(value);
+			}
+
+			const decoder = findDecoder(value, decoders);
+
+			if (!decoder) {
+				return value;
+			}
+
+			if (decoding.has(value)) {
+				return value;
+			}
+
+			decoding.add(value);
+
+			const result = decoder(value, context) ?? value;
+
+			decoding.delete(value);
+			decoded.set(value, result);
+
+			return result;
+		}
+	};
+
+	return context.decode(value) as T;
+}
+
+// * Objects written using writeObject after the block data which stores the size of the
+// * collection. Returns undefined if the collection was not written the expected way
+function collectionElements(object: JavaObject, className: string): JavaValue[] | undefined {
+	const annotation = object.getClassData(className)?.annotation ?? [];
+	const start = annotation.findIndex(element => element instanceof BlockData);
+
+	if (start === -1) {
+		return undefined;
+	}
+
+	return annotation.slice(start + 1).filter(element => !(element instanceof BlockData));
+}
+
+// * java.util.ArrayList and java.util.LinkedList write their size followed by their elements
+function listDecoder(className: string): Decoder {
+	return (object, context) => {
+		const elements = collectionElements(object, className);
+
+		return elements?.map(element => context.decode(element));
+	};
+}
+
+// * java.util.Vector writes its backing array, which may have unused space at the end
+function decodeVector(object: JavaObject, context: DecoderContext): unknown[] | undefined {
+	const values = object.getClassData('java.util.Vector')?.values;
+
+	if (!(values?.elementData instanceof JavaArray) || !Array.isArray(values.elementData.values)) {
+		return undefined;
+	}
+
+	return values.elementData.values.slice(0, values.elementCount).map(element => context.decode(element));
+}
+
+// * Maps write their sizes followed by alternating keys and values
+function mapDecoder(className: string): Decoder {
+	return (object, context) => {
+		const elements = collectionElements(object, className);
+
+		if (!elements) {
+			return undefined;
+		}
+
+		const map = new Map<unknown, unknown>();
+
+		for (let i = 0; i + 1 < elements.length; i += 2) {
+			map.set(context.decode(elements[i]), context.decode(elements[i + 1]));
+		}
+
+		return map;
+	};
+}
+
+function setDecoder(className: string): Decoder {
+	return (object, context) => {
+		const elements = collectionElements(object, className);
+
+		return elements && new Set(elements.map(element => context.decode(element)));
+	};
+}
+
+// * java.util.Date writes its time in milliseconds
+function decodeDate(object: JavaObject): Date | undefined {
+	const cursor = new AnnotationCursor(object.getClassData('java.util.Date')?.annotation ?? []);
+
+	if (cursor.available() < 8) {
+		return undefined;
+	}
+
+	return new Date(Number(cursor.readLong()));
+}
+
+// * Decoded to its canonical string form, such as "123e4567-e89b-12d3-a456-426614174000"
+function decodeUUID(object: JavaObject): string | undefined {
+	const values = object.getClassData('java.util.UUID')?.values;
+
+	if (typeof values?.mostSigBits !== 'bigint' || typeof values?.leastSigBits !== 'bigint') {
+		return undefined;
+	}
+
+	const data = new Uint8Array(16);
+	const view = dataView(data);
+
+	view.setBigInt64(0, values.mostSigBits);
+	view.setBigInt64(8, values.leastSigBits);
+
+	const hex = toHex(data);
+
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// * java.math.BigInteger writes its sign and its magnitude as big endian bytes
+function decodeBigInteger(object: JavaObject): bigint | undefined {
+	const values = object.getClassData('java.math.BigInteger')?.values;
+
+	if (typeof values?.signum !== 'number' || !(values.magnitude instanceof JavaArray)) {
+		return undefined;
+	}
+
+	const hex = toHex(encodePrimitiveArray('B', values.magnitude.values));
+	const magnitude = hex.length !== 0 ? BigInt(`0x${hex}`) : 0n;
+
+	return values.signum < 0 ? -magnitude : magnitude;
+}
+
+// * JavaScript has no decimal type, so java.math.BigDecimal is decoded to a string without
+// * losing precision, such as "-123.4500"
+function decodeBigDecimal(object: JavaObject, context: DecoderContext): string | undefined {
+	const values = object.getClassData('java.math.BigDecimal')?.values;
+	const unscaled = values && context.decode(values.intVal);
+
+	if (typeof unscaled !== 'bigint' || typeof values?.scale !== 'number') {
+		return undefined;
+	}
+
+	const sign = unscaled < 0n ? '-' : '';
+	const digits = (unscaled < 0n ? -unscaled : unscaled).toString();
+	const scale: number = values.scale;
+
+	if (scale <= 0) {
+		return sign + digits + '0'.repeat(-scale);
+	}
+
+	const padded = digits.padStart(scale + 1, '0');
+
+	return `${sign}${padded.slice(0, -scale)}.${padded.slice(-scale)}`;
+}
+
+// * java.net.URL stores its parts separately. Decoded to a URL, if the parts form a valid one
+function decodeURL(object: JavaObject, context: DecoderContext): URL | undefined {
+	const values = object.getClassData('java.net.URL')?.values;
+
+	if (!values) {
+		return undefined;
+	}
+
+	const protocol = context.decode(values.protocol);
+	const host = context.decode(values.host) ?? '';
+	const authority = context.decode(values.authority) ?? (values.port !== -1 ? `${host}:${values.port}` : host);
+	const file = context.decode(values.file) ?? '';
+	const ref = context.decode(values.ref);
+
+	try {
+		return new URL(`${protocol}://${authority}${file}${ref !== null ? `#${ref}` : ''}`);
+	} catch {
+		return undefined;
+	}
+}
+
+// * java.net.URI may be relative, which URL cannot represent, so it is decoded to a string
+function decodeURI(object: JavaObject, context: DecoderContext): string | undefined {
+	const string = context.decode(object.getClassData('java.net.URI')?.values.string);
+
+	return typeof string === 'string' ? string : undefined;
+}
+
+// * Boxed primitives store their value in a single "value" field. java.lang.Long is decoded
+// * to a bigint, and java.lang.Character to a string
+function boxedDecoder(className: string): Decoder {
+	return object => object.getClassData(className)?.values.value;
+}
@@ -0,0 +1,391 @@
+// * Structural diff between two parsed object graphs, such as captures from two versions of
+// * the same app. Values are matched by their path through the graph, the same paths used by
+// * "query", rather than by handle numbers, which shift whenever anything before them changes.
+// *
+// * Objects of the same class are compared field by field, and element by element for arrays
+// * and annotations. An object which changed class is reported as a single change, without
+// * comparing its fields. Primitive arrays are compared as a whole. Class descriptions are
+// * compared separately by class name, reporting changed serialVersionUIDs, flags and fields
+
+import {
+	JavaObject,
+	JavaString,
+	JavaArray,
+	JavaEnum,
+	JavaClass,
+	JavaClassDesc,
+	JavaProxyClassDesc,
+	JavaException,
+	BlockData,
+	ExternalData
+} from '@/object-input-stream';
+import { collectClassDescs } from '@/schema-registry';
+import { children } from '@/query';
+import { javaTypeName } from '@/type-generator';
+import { bytesEqual, toHex } from '@/bytes';
+import type JavaValue from '@/types/java-value';
+import type DiffReport from '@/types/diff-report';
+import type { ValueChange, ClassChange, FieldChange } from '@/types/diff-report';
+
+const MAX_STRING_LENGTH = 80; // * Longer strings are cut short in descriptions
+const MAX_PREVIEW_ELEMENTS = 16; // * Number of primitive array elements shown in descriptions
+
+export function diff(before: JavaValue, after: JavaValue): DiffReport {
+	return {
+		classes: diffClasses(collectClassDescs(before), collectClassDescs(after)),
+		values: diffValues(before, after)
+	};
+}
+
+// * Renders a report as readable text, or as JSON
+export function formatDiff(report: DiffReport, format: 'text' | 'json' = 'text'): string {
+	if (format === 'json') {
+		return JSON.stringify(report, null, 2) + '\n';
+	}
+
+	if (report.classes.length === 0 && report.values.length === 0) {
+		return 'No differences\n';
+	}
+
+	const lines: string[] = [];
+
+	if (report.classes.length !== 0) {
+		lines.push('Classes');
+
+		for (const change of report.classes) {
+			lines.push(`  ${SYMBOLS[change.type]} ${change.className}`);
+
+			if (change.serialVersionUID) {
+				lines.push(`      serialVersionUID: ${change.serialVersionUID.before} -> ${change.serialVersionUID.after}`);
+			}
+
+			if (change.flags) {
+				lines.push(`      flags: 0x${hex(change.flags.before)} -> 0x${hex(change.flags.after)}`);
+			}
+
+			for (const field of change.fields) {
+				lines.push(`      ${SYMBOLS[field.type]} ${field.name}: ${describeChange(field.before, field.after)}`);
+			}
+		}
+
+		lines.push('');
+	}
+
+	if (report.values.length !== 0) {
+		lines.push('Values');
+
+		for (const change of report.values) {
+			lines.push(`  ${SYMBOLS[change.type]} ${change.path || '(root)'}: ${describeChange(change.before, change.after)}`);
+		}
+
+		lines.push('');
+	}
+
+	return lines.join('\n');
+}
+
+const SYMBOLS = {
+	added: '+',
+	removed: '-',
+	changed: '~'
+};
+
+function describeChange(before: string | undefined, after: string | undefined): string {
+	if (before === undefined) {
+		return after!;
+	}
+
+	if (after === undefined) {
+		return before;
+	}
+
+	return `${before} -> ${after}`;
+}
+
+function hex(flags: number): string {
+	return flags.toString(16).padStart(2, '0');
+}
+
+// * Class descriptions are matched by name. If a graph contains more than one version of a
+// * class, the first one found is used
+function diffClasses(before: JavaClassDesc[], after: JavaClassDesc[]): ClassChange[] {
+	const beforeClasses = classesByName(before);
+	const afterClasses = classesByName(after);
+	const changes: ClassChange[] = [];
+
+	for (const [className, classDesc] of beforeClasses) {
+		const other = afterClasses.get(className);
+
+		if (!other) {
+			changes.push({ type: 'removed', className, fields: [] });
+			continue;
+		}
+
+		const change: ClassChange = {
+			type: 'changed',
+			className,
+			fields: diffFields(classDesc, other)
+		};
+
+		if (classDesc.serialVersionUID !== other.serialVersionUID) {
+			change.serialVersionUID = {
+				before: classDesc.serialVersionUID.toString(),
+				after: other.serialVersionUID.toString()
+			};
+		}
+
+		if (classDesc.info.flags !== other.info.flags) {
+			change.flags = {
+				before: classDesc.info.flags,
+				after: other.info.flags
+			};
+		}
+
+		if (change.serialVersionUID || change.flags || change.fields.length !== 0) {
+			changes.push(change);
+		}
+	}
+
+	for (const className of afterClasses.keys()) {
+		if (!beforeClasses.has(className)) {
+			changes.push({ type: 'added', className, fields: [] });
+		}
+	}
+
+	return changes;
+}
+
+// * Proxy classes have no name to match them by, and are skipped
+function classesByName(classDescs: JavaClassDesc[]): Map<string, JavaClassDesc> {
+	const classes = new Map<string, JavaClassDesc>();
+
+	for (const classDesc of classDescs) {
+		if (!(classDesc instanceof JavaProxyClassDesc) && !classes.has(classDesc.className.value)) {
+			classes.set(classDesc.className.value, classDesc);
+		}
+	}
+
+	return classes;
+}
+
+function diffFields(before: JavaClassDesc, after: JavaClassDesc): FieldChange[] {
+	const beforeFields = new Map(before.info.fields.map(field => [field.name, field.className1?.value ?? field.typeCode]));
+	const afterFields = new Map(after.info.fields.map(field => [field.name, field.className1?.value ?? field.typeCode]));
+	const changes: FieldChange[] = [];
+
+	for (const [name, signature] of beforeFields) {
+		const other = afterFields.get(name);
+
+		if (other === undefined) {
+			changes.push({ type: 'removed', name, before: signature });
+		} else if (other !== signature) {
+			changes.push({ type: 'changed', name, before: signature, after: other });
+		}
+	}
+
+	for (const [name, signature] of afterFields) {
+		if (!beforeFields.has(name)) {
+			changes.push({ type: 'added', name, after: signature });
+		}
+	}
+
+	return changes;
+}
+
+// * Walks both graphs side by side. Uses an explicit stack so deep graphs do not overflow
+// * the call stack. Pairs of values which were already compared are skipped, which also
+// * stops cycles. Values missing from one side are undefined, since parsed values never are
+function diffValues(before: JavaValue, after: JavaValue): ValueChange[] {
+	const changes: ValueChange[] = [];
+	const compared = new Map<object, Set<object>>();
+	const stack: [JavaValue | undefined, JavaValue | undefined, string][] = [[before, after, '']];
+
+	while (stack.length !== 0) {
+		const [a, b, path] = stack.pop()!;
+
+		if (a === undefined) {
+			changes.push({ type: 'added', path, after: describe(b) });
+			continue;
+		}
+
+		if (b === undefined) {
+			changes.push({ type: 'removed', path, before: describe(a) });
+			continue;
+		}
+
+		if (!isNode(a) || !isNode(b) || kind(a) !== kind(b) || !hasChildren(a)) {
+			if (!isSame(a, b)) {
+				changes.push({ type: 'changed', path, before: describe(a), after: describe(b) });
+			}
+
+			continue;
+		}
+
+		if (compared.get(a)?.has(b)) {
+			continue;
+		}
+
+		if (!compared.has(a)) {
+			compared.set(a, new Set());
+		}
+
+		compared.get(a)!.add(b);
+
+		const beforeChildren = new Map(children(a));
+		const afterChildren = new Map(children(b));
+		const keys = new Set([...beforeChildren.keys(), ...afterChildren.keys()]);
+		const pending = Array.from(keys, (key): [JavaValue | undefined, JavaValue | undefined, string] => [beforeChildren.get(key), afterChildren.get(key), path === '' ? String(key) : `${path}/${key}`]);
+
+		// * Pushed in reverse, so they are compared in order
+		for (let i = pending.length - 1; i >= 0; i--) {
+			stack.push(pending[i]);
+		}
+	}
+
+	return changes;
+}
+
+function isNode(value: JavaValue): value is JavaValue & object {
+	return value !== null && typeof value === 'object';
+}
+
+// * Values of different kinds are reported as a single change. Objects and arrays are
+// * only compared element by element if they are of the same class
+function kind(value: JavaValue & object): string {
+	if (value instanceof JavaObject) {
+		return `object ${value.classDesc?.className.value}`;
+	}
+
+	if (value instanceof JavaArray) {
+		return `array ${value.classDesc?.className.value}`;
+	}
+
+	return value.constructor?.name ?? typeof value;
+}
+
+// * Objects, arrays of objects, exceptions and plain arrays are compared by their children
+function hasChildren(value: JavaValue): boolean {
+	if (value instanceof JavaArray) {
+		return Array.isArray(value.values);
+	}
+
+	return value instanceof JavaObject || value instanceof JavaException || Array.isArray(value);
+}
+
+function isSame(a: JavaValue, b: JavaValue): boolean {
+	if (a instanceof JavaString && b instanceof JavaString) {
+		return a.value === b.value;
+	}
+
+	if (a instanceof JavaEnum && b instanceof JavaEnum) {
+		return a.classDesc?.className.value === b.classDesc?.className.value && a.constant.value === b.constant.value;
+	}
+
+	if (a instanceof JavaClass && b instanceof JavaClass) {
+		return a.description?.className.value === b.description?.className.value;
+	}
+
+	if (a instanceof JavaClassDesc && b instanceof JavaClassDesc) {
+		return a.className.value === b.className.value;
+	}
+
+	if ((a instanceof BlockData || a instanceof ExternalData) && (b instanceof BlockData || b instanceof ExternalData)) {
+		return bytesEqual(a.data, b.data);
+	}
+
+	if (a instanceof JavaArray && b instanceof JavaArray) {
+		return a.values.length === b.values.length && Array.prototype.every.call(a.values, (value: unknown, i: number) => Object.is(value, b.values[i]));
+	}
+
+	if (a instanceof Uint8Array && b instanceof Uint8Array) {
+		return bytesEqual(a, b);
+	}
+
+	return Object.is(a, b);
+}
+
+function describe(value: JavaValue | undefined): string {
+	if (value === null || value === undefined) {
+		return 'null';
+	}
+
+	if (typeof value === 'string') {
+		return quote(value);
+	}
+
+	if (typeof value === 'bigint') {
+		return `${value}L`;
+	}
+
+	if (value instanceof JavaString) {
+		return quote(value.value);
+	}
+
+	if (value instanceof JavaEnum) {
+		return `${value.classDesc?.className.value}.${value.constant.value}`;
+	}
+
+	if (value instanceof JavaClass) {
+		return `class ${value.description?.className.value}`;
+	}
+
+	if (value instanceof JavaObject) {
+		return value.classDesc?.className.value ?? 'null';
+	}
+
+	if (value instanceof JavaClassDesc) {
+		return `classDesc ${value.className.value}`;
+	}
+
+	if (value instanceof JavaArray) {
+		return describeArray(value);
+	}
+
+	if (value instanceof JavaException) {
+		return `exception ${describe(value.exception)}`;
+	}
+
+	if (value instanceof BlockData || value instanceof ExternalData) {
+		return `${value.constructor.name}(${value.data.length} bytes) ${preview(value.data)}`;
+	}
+
+	if (value instanceof Uint8Array) {
+		return preview(value);
+	}
+
+	if (Array.isArray(value)) {
+		return `[${value.length}]`;
+	}
+
+	return String(value);
+}
+
+// * Such as "int[3] [1, 2, 3]", "byte[4] 0x0102ff00" or "java.lang.String[2]"
+function describeArray(array: JavaArray): string {
+	const className = array.classDesc?.className.value ?? '[?';
+	const type = javaTypeName(className).replace('[]', `[${array.values.length}]`);
+
+	if (Array.isArray(array.values)) {
+		return type;
+	}
+
+	if (typeof array.values === 'string') {
+		return `${type} ${quote(array.values)}`;
+	}
+
+	if (array.values instanceof Uint8Array) {
+		return `${type} ${preview(array.values)}`;
+	}
+
+	const values = Array.from(array.values as ArrayLike<number | bigint>).slice(0, MAX_PREVIEW_ELEMENTS).map(String);
+
+	return `${type} [${values.join(', ')}${array.values.length > MAX_PREVIEW_ELEMENTS ? ', ...' : ''}]`;
+}
+
+function preview(data: Uint8Array): string {
+	return `0x${toHex(data.subarray(0, MAX_PREVIEW_ELEMENTS * 2))}${data.length > MAX_PREVIEW_ELEMENTS * 2 ? '...' : ''}`;
+}
+
+function quote(value: string): string {
+	return JSON.stringify(value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}...` : value);
+}
@@ -0,0 +1,616 @@
+// * Walks a stream token by token without building any objects, the same way
+// * https://github.com/NickstaDB/SerializationDumper does. "trace" yields every token along
+// * with its offset, for tools such as hex viewers, and "dump" renders the tokens in the
+// * same indented format SerializationDumper prints, so the output can be diffed against
+// * known-good dumps
+// *
+// * Only class descriptions are tracked, since field values cannot be read without knowing
+// * the layout of their class. Like SerializationDumper, PROTOCOL_VERSION_1 external contents
+// * cannot be walked, unless they belong to a top-level object
+
+import { decodeModifiedUTF8 } from '@/modified-utf8';
+import { JavaSerializationError, TYPE_CODE_NAMES, wrapParseError } from '@/errors';
+import { dataView, toHex } from '@/bytes';
+import type InputStream from '@/types/input-stream';
+import type TraceEvent from '@/types/trace-event';
+import type DumpOptions from '@/types/dump-options';
+
+const STREAM_MAGIC = 0xACED;
+const STREAM_VERSION = 5;
+const BASE_WIRE_HANDLE = 0x7E0000;
+
+const TC_NULL = 0x70;
+const TC_REFERENCE = 0x71;
+const TC_CLASSDESC = 0x72;
+const TC_OBJECT = 0x73;
+const TC_STRING = 0x74;
+const TC_ARRAY = 0x75;
+const TC_CLASS = 0x76;
+const TC_BLOCKDATA = 0x77;
+const TC_ENDBLOCKDATA = 0x78;
+const TC_RESET = 0x79;
+const TC_BLOCKDATALONG = 0x7A;
+const TC_EXCEPTION = 0x7B;
+const TC_LONGSTRING = 0x7C;
+const TC_PROXYCLASSDESC = 0x7D;
+const TC_ENUM = 0x7E;
+
+const SC_WRITE_METHOD = 0x01;
+const SC_SERIALIZABLE = 0x02;
+const SC_EXTERNALIZABLE = 0x04;
+const SC_BLOCKDATA = 0x08;
+
+// * Named the same way SerializationDumper names them
+const FLAG_NAMES: [number, string][] = [
+	[0x01, 'SC_WRITE_METHOD'],
+	[0x02, 'SC_SERIALIZABLE'],
+	[0x04, 'SC_EXTERNALIZABLE'],
+	[0x08, 'SC_BLOCK_DATA'],
+	[0x10, 'SC_ENUM']
+];
+
+const FIELD_TYPE_NAMES: Record<string, string> = {
+	B: 'Byte',
+	C: 'Char',
+	D: 'Double',
+	F: 'Float',
+	I: 'Int',
+	J: 'Long',
+	S: 'Short',
+	Z: 'Boolean',
+	'[': 'Array',
+	L: 'Object'
+};
+
+interface TracedClassDesc {
+	className: string;
+	flags: number;
+	fields: { typeCode: string; name: string; }[];
+	superClass: TracedClassDesc | null;
+};
+
+type Trace<T = void> = Generator<TraceEvent, T>;
+
+// * Yields every token in the stream, in stream order
+export function* trace(stream: InputStream, options: { strictUTF?: boolean; } = {}): Generator<TraceEvent> {
+	yield* new StreamTracer(stream, options.strictUTF ?? true).trace();
+}
+
+// * Renders the stream in the same format as SerializationDumper
+export function dump(stream: InputStream, options: DumpOptions = {}): string {
+	return Array.from(dumpLines(stream, options)).join('\n') + '\n';
+}
+
+// * Same as "dump", but yields the lines one at a time. Lines yielded before an error are
+// * still usable, for printing whatever was dumped before the error like SerializationDumper
+export function* dumpLines(stream: InputStream, options: DumpOptions = {}): Generator<string> {
+	let indent = 0;
+
+	for (const event of trace(stream, options)) {
+		if (event.type === 'end') {
+			indent--;
+			continue;
+		}
+
+		const prefix = options.offsets ? `[0x${event.offset.toString(16).padStart(8, '0')}] ` : '';
+
+		yield prefix + '  '.repeat(indent) + formatEvent(event);
+
+		if (event.type === 'start') {
+			indent++;
+		}
+	}
+}
+
+class StreamTracer {
+	private stream: InputStream;
+	private strictUTF: boolean;
+	private handles: (TracedClassDesc | null)[] = []; // * Only class descriptions are needed, everything else is null
+
+	constructor(stream: InputStream, strictUTF: boolean) {
+		this.stream = stream;
+		this.strictUTF = strictUTF;
+	}
+
+	public *trace(): Trace {
+		try {
+			const magic = yield* this.value('STREAM_MAGIC', 2, view => view.getUint16(0));
+
+			if (magic !== STREAM_MAGIC) {
+				throw this.error(`Bad magic 0x${magic.toString(16)}`, null, 0);
+			}
+
+			const version = yield* this.value('STREAM_VERSION', 2, view => view.getUint16(0));
+
+			if (version !== STREAM_VERSION) {
+				throw this.error(`Bad version ${version}`, null, 2);
+			}
+
+			yield this.label('Contents');
+
+			while (this.stream.hasDataLeft()) {
+				if (this.stream.peek() === TC_RESET) {
+					yield this.typeCode(TC_RESET);
+					yield this.end('TC_RESET');
+					this.handles = [];
+				} else {
+					yield* this.readContent();
+				}
+			}
+
+			yield this.end('Contents');
+		} catch (error) {
+			if (error instanceof JavaSerializationError) {
+				throw error;
+			}
+
+			throw wrapParseError(error, {
+				offset: this.stream.pos()
+			});
+		}
+	}
+
+	private *readContent(): Trace<TracedClassDesc | null> {
+		const typeCode = this.stream.peek();
+
+		switch (typeCode) {
+			case TC_NULL:
+				return yield* this.readNullReference();
+			case TC_REFERENCE:
+				return yield* this.readPrevObject();
+			case TC_CLASSDESC:
+			case TC_PROXYCLASSDESC:
+				return yield* this.readNewClassDesc();
+			case TC_OBJECT:
+				yield* this.readNewObject();
+				return null;
+			case TC_STRING:
+			case TC_LONGSTRING:
+				yield* this.readNewString();
+				return null;
+			case TC_ARRAY:
+				yield* this.readNewArray();
+				return null;
+			case TC_CLASS:
+				yield* this.readNewClass();
+				return null;
+			case TC_BLOCKDATA:
+			case TC_BLOCKDATALONG:
+				yield* this.readBlockData();
+				return null;
+			case TC_EXCEPTION:
+				yield* this.readException();
+				return null;
+			case TC_ENUM:
+				yield* this.readNewEnum();
+				return null;
+
+			default:
+				throw this.error('Unsupported type code', typeCode);
+		}
+	}
+
+	private *readClassDesc(): Trace<TracedClassDesc | null> {
+		const typeCode = this.stream.peek();
+
+		switch (typeCode) {
+			case TC_NULL:
+				return yield* this.readNullReference();
+			case TC_CLASSDESC:
+			case TC_PROXYCLASSDESC:
+				return yield* this.readNewClassDesc();
+			case TC_REFERENCE:
+				return yield* this.readPrevObject();
+
+			default:
+				throw this.error('Unexpected type code for a classDesc', typeCode);
+		}
+	}
+
+	private *readNewClassDesc(): Trace<TracedClassDesc> {
+		const classDesc: TracedClassDesc = {
+			className: '',
+			flags: SC_SERIALIZABLE, // * Proxy classes are always serializable
+			fields: [],
+			superClass: null
+		};
+
+		const typeCode = this.stream.peek();
+
+		if (typeCode === TC_PROXYCLASSDESC) {
+			yield this.typeCode(TC_PROXYCLASSDESC);
+			yield* this.newHandle(classDesc);
+
+			const count = yield* this.value('Interface count', 4, view => view.getInt32(0));
+
+			yield this.label('proxyInterfaceNames');
+
+			for (let i = 0; i < count; i++) {
+				yield this.label(`${i}:`);
+				yield* this.readUTF(2);
+				yield this.end(`${i}:`);
+			}
+
+			yield this.end('proxyInterfaceNames');
+		} else {
+			yield this.typeCode(TC_CLASSDESC);
+			yield this.label('className');
+			classDesc.className = yield* this.readUTF(2);
+			yield this.end('className');
+
+			yield* this.value('serialVersionUID', 8, view => view.getBigInt64(0));
+			yield* this.newHandle(classDesc);
+
+			classDesc.flags = yield* this.value('classDescFlags', 1, view => view.getUint8(0));
+
+			const count = yield* this.value('fieldCount', 2, view => view.getInt16(0));
+
+			yield this.label('Fields');
+
+			for (let i = 0; i < count; i++) {
+				yield this.label(`${i}:`);
+				classDesc.fields.push(yield* this.readFieldDesc());
+				yield this.end(`${i}:`);
+			}
+
+			yield this.end('Fields');
+		}
+
+		yield this.label('classAnnotations');
+		yield* this.readAnnotation();
+		yield this.end('classAnnotations');
+
+		yield this.label('superClassDesc');
+		classDesc.superClass = yield* this.readClassDesc();
+		yield this.end('superClassDesc');
+
+		yield this.end(typeCode === TC_PROXYCLASSDESC ? 'TC_PROXYCLASSDESC' : 'TC_CLASSDESC');
+
+		return classDesc;
+	}
+
+	private *readFieldDesc(): Trace<{ typeCode: string; name: string; }> {
+		const offset = this.stream.pos();
+		const typeCode = String.fromCharCode(this.stream.peek());
+		const token = FIELD_TYPE_NAMES[typeCode];
+
+		if (!token) {
+			throw this.error(`Unsupported field type ${typeCode}`, null, offset);
+		}
+
+		yield* this.value(token, 1, () => typeCode);
+
+		yield this.label('fieldName');
+		const name = yield* this.readUTF(2);
+		yield this.end('fieldName');
+
+		if (typeCode === '[' || typeCode === 'L') {
+			yield this.label('className1');
+			yield* this.readNewString();
+			yield this.end('className1');
+		}
+
+		return { typeCode, name };
+	}
+
+	private *readAnnotation(): Trace {
+		while (this.stream.peek() !== TC_ENDBLOCKDATA) {
+			yield* this.readContent();
+		}
+
+		yield this.typeCode(TC_ENDBLOCKDATA);
+		yield this.end('TC_ENDBLOCKDATA');
+	}
+
+	private *readNewClass(): Trace {
+		yield this.typeCode(TC_CLASS);
+		yield* this.readClassDesc();
+		yield* this.newHandle(null);
+		yield this.end('TC_CLASS');
+	}
+
+	private *readNewArray(): Trace {
+		yield this.typeCode(TC_ARRAY);
+
+		const classDesc = yield* this.readClassDesc();
+
+		yield* this.newHandle(null);
+
+		const size = yield* this.value('Array size', 4, view => view.getInt32(0));
+		const typeCode = classDesc?.className[1] ?? 'L';
+
+		yield this.label('Values');
+
+		for (let i = 0; i < size; i++) {
+			yield this.label(`Index ${i}:`);
+			yield* this.readFieldValue(typeCode);
+			yield this.end(`Index ${i}:`);
+		}
+
+		yield this.end('Values');
+		yield this.end('TC_ARRAY');
+	}
+
+	private *readNewObject(): Trace {
+		yield this.typeCode(TC_OBJECT);
+
+		const classDesc = yield* this.readClassDesc();
+
+		yield* this.newHandle(null);
+
+		if (classDesc) {
+			yield this.label('classdata');
+
+			yield* this.readClassData(classDesc);
+
+			yield this.end('classdata');
+		}
+
+		yield this.end('TC_OBJECT');
+	}
+
+	private *readClassData(classDesc: TracedClassDesc): Trace {
+		const hierarchy: TracedClassDesc[] = [];
+
+		for (let current: TracedClassDesc | null = classDesc; current; current = current.superClass) {
+			hierarchy.unshift(current);
+		}
+
+		for (const description of hierarchy) {
+			let hasObjectAnnotation = false;
+
+			yield this.label(description.className);
+
+			if (description.flags & SC_SERIALIZABLE) {
+				yield this.label('values');
+
+				for (const field of description.fields) {
+					yield this.label(field.name);
+					yield* this.readFieldValue(field.typeCode);
+					yield this.end(field.name);
+				}
+
+				yield this.end('values');
+
+				hasObjectAnnotation = (description.flags & SC_WRITE_METHOD) !== 0;
+			}
+
+			if (description.flags & SC_EXTERNALIZABLE) {
+				if (description.flags & SC_BLOCKDATA) {
+					hasObjectAnnotation = true;
+				} else {
+					yield this.label('externalContents');
+					yield* this.readExternalContents(description);
+					yield this.end('externalContents');
+				}
+			}
+
+			if (hasObjectAnnotation) {
+				yield this.label('objectAnnotation');
+				yield* this.readAnnotation();
+				yield this.end('objectAnnotation');
+			}
+
+			yield this.end(description.className);
+		}
+	}
+
+	// * PROTOCOL_VERSION_1 data is not framed in block data, and even top-level objects may be
+	// * followed by more top-level objects, so there is no way to know where the data ends
+	private *readExternalContents(classDesc: TracedClassDesc): Trace {
+		throw this.error(`Cannot dump externalContents for ${classDesc.className}. PROTOCOL_VERSION_1 data can only be read by its class`);
+	}
+
+	private *readFieldValue(typeCode: string): Trace {
+		switch (typeCode) {
+			case 'B':
+				yield* this.value('(byte)', 1, view => view.getInt8(0));
+				break;
+			case 'C':
+				yield* this.value('(char)', 2, view => String.fromCharCode(view.getUint16(0)));
+				break;
+			case 'D':
+				yield* this.value('(double)', 8, view => view.getFloat64(0));
+				break;
+			case 'F':
+				yield* this.value('(float)', 4, view => view.getFloat32(0));
+				break;
+			case 'I':
+				yield* this.value('(int)', 4, view => view.getInt32(0));
+				break;
+			case 'J':
+				yield* this.value('(long)', 8, view => view.getBigInt64(0));
+				break;
+			case 'S':
+				yield* this.value('(short)', 2, view => view.getInt16(0));
+				break;
+			case 'Z':
+				yield* this.value('(boolean)', 1, view => view.getUint8(0) !== 0);
+				break;
+			case '[':
+				yield this.label('(array)');
+				yield* this.readContent();
+				yield this.end('(array)');
+				break;
+			case 'L':
+				yield this.label('(object)');
+				yield* this.readContent();
+				yield this.end('(object)');
+				break;
+
+			default:
+				throw this.error(`Unsupported field type ${typeCode}`);
+		}
+	}
+
+	private *readNewString(): Trace {
+		const typeCode = this.stream.peek();
+
+		switch (typeCode) {
+			case TC_STRING:
+			case TC_LONGSTRING:
+				yield this.typeCode(typeCode);
+				yield* this.newHandle(null);
+				yield* this.readUTF(typeCode === TC_STRING ? 2 : 8);
+				yield this.end(TYPE_CODE_NAMES[typeCode]);
+				break;
+			case TC_REFERENCE:
+				yield* this.readPrevObject();
+				break;
+
+			default:
+				throw this.error('Unexpected type code for a newString', typeCode);
+		}
+	}
+
+	private *readNewEnum(): Trace {
+		yield this.typeCode(TC_ENUM);
+		yield* this.readClassDesc();
+		yield* this.newHandle(null);
+		yield this.label('enumConstantName');
+		yield* this.readNewString();
+		yield this.end('enumConstantName');
+		yield this.end('TC_ENUM');
+	}
+
+	private *readPrevObject(): Trace<TracedClassDesc | null> {
+		yield this.typeCode(TC_REFERENCE);
+
+		const offset = this.stream.pos();
+		const handle = yield* this.value('Handle', 4, view => view.getInt32(0));
+		const index = handle - BASE_WIRE_HANDLE;
+
+		if (index < 0 || index >= this.handles.length) {
+			throw this.error(`Invalid TC_REFERENCE handle 0x${handle.toString(16)}`, null, offset);
+		}
+
+		yield this.end('TC_REFERENCE');
+
+		return this.handles[index];
+	}
+
+	private *readNullReference(): Trace<null> {
+		yield this.typeCode(TC_NULL);
+		yield this.end('TC_NULL');
+
+		return null;
+	}
+
+	private *readBlockData(): Trace {
+		const typeCode = this.stream.peek();
+		const isLong = typeCode === TC_BLOCKDATALONG;
+
+		yield this.typeCode(typeCode);
+
+		const length = yield* this.value('Length', isLong ? 4 : 1, view => isLong ? view.getInt32(0) : view.getUint8(0));
+
+		yield* this.value('Contents', length, (view, data) => data);
+		yield this.end(TYPE_CODE_NAMES[typeCode]);
+	}
+
+	private *readException(): Trace {
+		yield this.typeCode(TC_EXCEPTION);
+
+		this.handles = [];
+		yield* this.readNewObject();
+		this.handles = [];
+
+		yield this.end('TC_EXCEPTION');
+	}
+
+	// * Yields the "Length" and "Value" of a modified UTF-8 string
+	private *readUTF(lengthSize: 2 | 8): Trace<string> {
+		const length = yield* this.value('Length', lengthSize, view => lengthSize === 2 ? view.getUint16(0) : Number(view.getBigUint64(0)));
+
+		return yield* this.value('Value', length, (view, data) => decodeModifiedUTF8(data, this.strictUTF));
+	}
+
+	// * Handles are not written to the stream. The event marks where the handle was assigned
+	private *newHandle(classDesc: TracedClassDesc | null): Trace {
+		const handle = BASE_WIRE_HANDLE + this.handles.length;
+
+		this.handles.push(classDesc);
+
+		yield { type: 'value', token: 'newHandle', offset: this.stream.pos(), length: 0, value: handle };
+	}
+
+	private *value<T extends TraceEvent['value']>(token: string, length: number, decode: (view: DataView, data: Uint8Array) => T): Trace<T> {
+		const offset = this.stream.pos();
+		const data = this.stream.read(length);
+		const value = decode(dataView(data), data);
+
+		yield { type: 'value', token, offset, length, value, data };
+
+		return value;
+	}
+
+	// * Reads a type code, which opens a section until the matching "end"
+	private typeCode(expected: number): TraceEvent {
+		const offset = this.stream.pos();
+		const data = this.stream.read(1);
+		const typeCode = data[0];
+
+		if (typeCode !== expected) {
+			throw this.error(`Expected ${TYPE_CODE_NAMES[expected]}`, typeCode, offset);
+		}
+
+		return { type: 'start', token: TYPE_CODE_NAMES[typeCode], offset, length: 1, value: typeCode, data };
+	}
+
+	private label(token: string): TraceEvent {
+		return { type: 'start', token, offset: this.stream.pos(), length: 0 };
+	}
+
+	private end(token: string): TraceEvent {
+		return { type: 'end', token, offset: this.stream.pos(), length: 0 };
+	}
+
+	private error(reason: string, typeCode: number | null = null, offset = this.stream.pos()): JavaSerializationError {
+		return new JavaSerializationError(reason, { offset, typeCode });
+	}
+}
+
+// * Formats a token as a line of SerializationDumper output
+function formatEvent(event: TraceEvent): string {
+	const { token, value, data } = event;
+
+	if (event.type === 'start') {
+		return event.length === 0 ? token : `${token} - 0x${hex(value as number, 1)}`;
+	}
+
+	switch (token) {
+		case 'newHandle': {
+			const handle = value as number;
+
+			return `newHandle ${spacedHex(Uint8Array.of(handle >>> 24, (handle >>> 16) & 0xFF, (handle >>> 8) & 0xFF, handle & 0xFF))}`;
+		}
+		case 'STREAM_MAGIC':
+		case 'STREAM_VERSION':
+		case 'serialVersionUID':
+			return `${token} - ${spacedHex(data!)}`;
+		case 'Value':
+			return `${token} - ${value} - 0x${toHex(data!)}`;
+		case 'Contents':
+			return `${token} - 0x${toHex(data!)}`;
+		case 'classDescFlags': {
+			const flags = value as number;
+
+			return `${token} - 0x${hex(flags, 1)} - ${FLAG_NAMES.filter(([flag]) => flags & flag).map(([, name]) => name).join(' | ')}`;
+		}
+	}
+
+	if (token.startsWith('(')) {
+		return `${token}${value} - ${spacedHex(data!)}`;
+	}
+
+	return `${token} - ${value} - ${spacedHex(data!)}`;
+}
+
+function hex(value: number, bytes: number): string {
+	return value.toString(16).padStart(bytes * 2, '0');
+}
+
+// * Such as "0x00 7e 00 01"
+function spacedHex(data: Uint8Array): string {
+	return '0x' + Array.from(data, byte => byte.toString(16).padStart(2, '0')).join(' ');
+}
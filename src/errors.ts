@@ -0,0 +1,127 @@
+// * Thrown by input streams when reading past the end of their data. The reason and the offset
+// * are kept apart, so errors which wrap this one only name the offset once
+export class EndOfDataError extends RangeError {
+	public readonly reason: string; // * The message without the offset
+	public readonly offset: number;
+
+	constructor(reason: string, offset: number) {
+		super(`${reason} at offset ${offset}`);
+
+		this.name = 'EndOfDataError';
+		this.reason = reason;
+		this.offset = offset;
+	}
+}
+
+// * Thrown by streams which receive their data over time, when reading past the data
+// * received so far. The read can be retried once more data has arrived
+export class InsufficientDataError extends EndOfDataError {
+	public missing: number; // * Number of bytes which still have to arrive before the read can succeed
+
+	constructor(reason: string, offset: number, missing = 1) {
+		super(reason, offset);
+
+		this.name = 'InsufficientDataError';
+		this.missing = missing;
+	}
+}
+
+export const TYPE_CODE_NAMES: Record<number, string> = {
+	0x70: 'TC_NULL',
+	0x71: 'TC_REFERENCE',
+	0x72: 'TC_CLASSDESC',
+	0x73: 'TC_OBJECT',
+	0x74: 'TC_STRING',
+	0x75: 'TC_ARRAY',
+	0x76: 'TC_CLASS',
+	0x77: 'TC_BLOCKDATA',
+	0x78: 'TC_ENDBLOCKDATA',
+	0x79: 'TC_RESET',
+	0x7A: 'TC_BLOCKDATALONG',
+	0x7B: 'TC_EXCEPTION',
+	0x7C: 'TC_LONGSTRING',
+	0x7D: 'TC_PROXYCLASSDESC',
+	0x7E: 'TC_ENUM'
+};
+
+export interface JavaSerializationErrorDetails {
+	offset: number;
+	typeCode?: number | null;
+	path?: string[];
+	cause?: unknown;
+};
+
+// * Thrown by ObjectInputStream when the stream cannot be parsed. Carries where in the stream
+// * the error happened, and what was being read at the time. The path is made of the field
+// * and annotation names leading to the value being read, such as
+// * "Session > ModelNode.children > ArrayList[3] > Transaction.request"
+export class JavaSerializationError extends Error {
+	public readonly reason: string; // * The message without any of the context
+	public readonly offset: number;
+	public readonly typeCode: number | null; // * The type code being parsed, if any
+	public readonly typeCodeName: string | null; // * Such as "TC_OBJECT". Null if the type code is not a valid one
+	public readonly path: string[];
+	public readonly cause?: unknown; // * The original error, if this error wraps another one
+
+	constructor(reason: string, details: JavaSerializationErrorDetails) {
+		const typeCode = details.typeCode ?? null;
+		const typeCodeName = typeCode !== null ? TYPE_CODE_NAMES[typeCode] ?? null : null;
+		const path = details.path ?? [];
+
+		let message = reason;
+
+		if (typeCode !== null) {
+			message += ` (type code 0x${typeCode.toString(16).padStart(2, '0').toUpperCase()}${typeCodeName ? ` ${typeCodeName}` : ''})`;
+		}
+
+		message += ` at offset ${details.offset}`;
+
+		if (path.length !== 0) {
+			message += ` in ${formatPath(path)}`;
+		}
+
+		super(message);
+
+		this.name = 'JavaSerializationError';
+		this.reason = reason;
+		this.offset = details.offset;
+		this.typeCode = typeCode;
+		this.typeCodeName = typeCodeName;
+		this.path = path;
+		this.cause = details.cause;
+	}
+}
+
+// * Wraps an error thrown while parsing, such as running out of data. Input streams name the
+// * offset they ran out of data at themselves, which is used in place of "details.offset"
+export function wrapParseError(error: unknown, details: JavaSerializationErrorDetails): JavaSerializationError {
+	if (error instanceof EndOfDataError) {
+		return new JavaSerializationError(error.reason, { ...details, offset: error.offset, cause: error });
+	}
+
+	return new JavaSerializationError(error instanceof Error ? error.message : String(error), { ...details, cause: error });
+}
+
+// * Array indexes are attached to the segment before them, such as "Transaction.headers[3]"
+function formatPath(path: string[]): string {
+	return path.reduce((formatted, segment) => {
+		if (formatted === '' || segment.startsWith('[')) {
+			return formatted + segment;
+		}
+
+		return `${formatted} > ${segment}`;
+	}, '');
+}
+
+// * Thrown by ObjectInputStream when a stream exceeds one of its configured limits, or uses
+// * a class which is not allowed. Never recovered from in lenient mode
+export class SecurityLimitError extends JavaSerializationError {
+	public readonly limit: string; // * Name of the limit which was exceeded, such as "maxArrayLength", "allowClasses" or "denyClasses"
+
+	constructor(reason: string, limit: string, details: JavaSerializationErrorDetails) {
+		super(reason, details);
+
+		this.name = 'SecurityLimitError';
+		this.limit = limit;
+	}
+}
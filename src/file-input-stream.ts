@@ -0,0 +1,125 @@
+// * InputStream backed by a file descriptor. Data is read lazily in windows of
+// * "bufferSize" bytes, so large files (such as multi-hundred-MB Charles dumps)
+// * never need to be loaded into memory all at once
+
+import fs from 'node:fs';
+import BaseInputStream from '@/base-input-stream';
+import { EndOfDataError } from '@/errors';
+
+export default class FileInputStream extends BaseInputStream {
+	private fd: number;
+	private readonly ownsFd: boolean;
+	private readonly size: number;
+	private readonly bufferSize: number;
+	private offset = 0;
+
+	// * Currently loaded window of the file. A new buffer is allocated for every
+	// * window, so views handed out by "read" stay valid after the window moves
+	private window = Buffer.alloc(0);
+	private windowStart = 0;
+
+	constructor(file: string | number, bufferSize = 64 * 1024) {
+		super();
+
+		if (typeof file === 'number') {
+			this.fd = file;
+			this.ownsFd = false;
+		} else {
+			this.fd = fs.openSync(file, 'r');
+			this.ownsFd = true;
+		}
+
+		try {
+			this.size = fs.fstatSync(this.fd).size;
+		} catch (error) {
+			// * Don't leak the file descriptor if it can't be used
+			this.close();
+			throw error;
+		}
+
+		this.bufferSize = bufferSize;
+	}
+
+	public hasDataLeft(): boolean {
+		return this.offset < this.size;
+	}
+
+	public pos(): number {
+		return this.offset;
+	}
+
+	public peek(): number {
+		return this.readRange(this.offset, 1)[0];
+	}
+
+	public skip(offset: number): void {
+		this.ensureAvailable(offset);
+
+		this.offset += offset;
+	}
+
+	public read(len: number): Buffer {
+		const data = this.readRange(this.offset, len);
+
+		this.offset += len;
+
+		return data;
+	}
+
+	// * Closes the underlying file descriptor. Only file descriptors opened by
+	// * this class are closed, ones passed in by the caller are left alone
+	public close(): void {
+		if (this.ownsFd) {
+			fs.closeSync(this.fd);
+		}
+	}
+
+	private readRange(start: number, len: number): Buffer {
+		this.ensureAvailable(len);
+
+		const windowEnd = this.windowStart + this.window.length;
+
+		if (start >= this.windowStart && start + len <= windowEnd) {
+			return this.window.subarray(start - this.windowStart, start - this.windowStart + len);
+		}
+
+		if (len > this.bufferSize) {
+			// * Too large to fit in a window, read it directly
+			return this.readFromFile(start, len);
+		}
+
+		this.window = this.readFromFile(start, Math.min(this.bufferSize, this.size - start));
+		this.windowStart = start;
+
+		return this.window.subarray(0, len);
+	}
+
+	private readFromFile(position: number, len: number): Buffer {
+		const buffer = Buffer.alloc(len);
+		let bytesRead = 0;
+
+		while (bytesRead < len) {
+			const read = fs.readSync(this.fd, buffer, bytesRead, len - bytesRead, position + bytesRead);
+
+			if (read === 0) {
+				throw new EndOfDataError('Unexpected end of file', position + bytesRead);
+			}
+
+			bytesRead += read;
+		}
+
+		return buffer;
+	}
+
+	private ensureAvailable(len: number): void {
+		if (len < 0) {
+			throw new RangeError(`Invalid length ${len}`);
+		}
+
+		const remaining = this.size - this.offset;
+
+		if (len > remaining) {
+			throw new EndOfDataError(`Cannot read ${len} bytes. Only ${remaining} bytes left`, this.offset);
+		}
+	}
+}
\ No newline at end of file
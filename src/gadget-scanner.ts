@@ -0,0 +1,97 @@
+// * Defensive scanner for classes used by known deserialization gadget chains. Parsing a
+// * stream with this library never runs Java code, so untrusted uploads can be parsed and
+// * scanned before they are handed to a Java service which would deserialize them.
+// *
+// * Every class description in the graph is checked, including superclasses, the component
+// * types of arrays and the interfaces of proxies, so wrapping a gadget in a subclass, an array
+// * or a proxy does not hide it. Parse untrusted streams with the "lenient" option, so classes
+// * before a malformed part of the stream are still scanned
+
+import { JavaProxyClassDesc } from '@/object-input-stream';
+import { collectClassDescs } from '@/schema-registry';
+import { matchesClassPattern, componentClassName } from '@/class-filter';
+import { GADGET_SIGNATURES } from '@/gadget-signatures';
+import type GadgetSignature from '@/types/gadget-signature';
+import type { GadgetSeverity } from '@/types/gadget-signature';
+import type GadgetScanReport from '@/types/gadget-scan-report';
+import type { GadgetFinding } from '@/types/gadget-scan-report';
+
+const SEVERITIES: GadgetSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// * Scans a parsed value, such as the elements returned by readAll. Pass a custom list of
+// * signatures to extend or replace the built-in one, such as "[...GADGET_SIGNATURES, ...custom]"
+export function scanGadgets(value: unknown, signatures: readonly GadgetSignature[] = GADGET_SIGNATURES): GadgetScanReport {
+	const classDescs = collectClassDescs(value);
+	const findings: GadgetFinding[] = [];
+	const found = new Set<string>();
+
+	for (const classDesc of classDescs) {
+		const className = classDesc.className.value;
+		const candidates: [string, GadgetFinding['via']][] = [];
+
+		if (classDesc instanceof JavaProxyClassDesc) {
+			for (const name of classDesc.interfaces) {
+				candidates.push([name, 'proxy interface']);
+			}
+		} else if (className.startsWith('[')) {
+			const component = componentClassName(className);
+
+			if (component !== null) {
+				candidates.push([component, 'array component']);
+			}
+		} else {
+			candidates.push([className, 'class']);
+		}
+
+		for (let superClass = classDesc.info.superClass; superClass; superClass = superClass.info.superClass) {
+			candidates.push([superClass.className.value, 'superclass']);
+		}
+
+		for (const [matchedClass, via] of candidates) {
+			for (const signature of signatures) {
+				const key = `${className}\0${matchedClass}\0${signature.pattern}`;
+
+				if (found.has(key) || !matchesClassPattern(matchedClass, signature.pattern)) {
+					continue;
+				}
+
+				found.add(key);
+				findings.push({ className, matchedClass, via, signature });
+			}
+		}
+	}
+
+	// * Array.prototype.sort is stable, so findings of the same severity keep their order
+	findings.sort((a, b) => SEVERITIES.indexOf(a.signature.severity) - SEVERITIES.indexOf(b.signature.severity));
+
+	return {
+		severity: findings[0]?.signature.severity ?? null,
+		findings,
+		classesScanned: classDescs.length
+	};
+}
+
+// * Renders a report as readable text, or as JSON
+export function formatGadgetReport(report: GadgetScanReport, format: 'text' | 'json' = 'text'): string {
+	if (format === 'json') {
+		return JSON.stringify(report, null, 2) + '\n';
+	}
+
+	if (report.findings.length === 0) {
+		return `No known gadget classes found in ${report.classesScanned} classes\n`;
+	}
+
+	const found = `${report.findings.length} known gadget ${report.findings.length === 1 ? 'class' : 'classes'}`;
+	const lines = [`Found ${found} in ${report.classesScanned} classes. Highest severity: ${report.severity}`, ''];
+
+	for (const { className, matchedClass, via, signature } of report.findings) {
+		const name = via === 'class' ? className : `${className || '(proxy)'} (${via} ${matchedClass})`;
+
+		lines.push(`  ${signature.severity.toUpperCase().padEnd(8)} ${name}`);
+		lines.push(`           ${signature.description}${signature.chains ? ` [${signature.chains.join(', ')}]` : ''}`);
+	}
+
+	lines.push('');
+
+	return lines.join('\n');
+}
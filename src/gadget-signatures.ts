@@ -0,0 +1,85 @@
+// * Classes used by known Java deserialization gadget chains, mostly from ysoserial
+// * (https://github.com/frohoff/ysoserial). Seeing one of these in a stream does not prove it
+// * is malicious, but they have little reason to appear in ordinary data.
+// *
+// *   - critical: classes which lead directly to code execution or JNDI lookups
+// *   - high: classes which invoke arbitrary methods, or are the core of a known chain
+// *   - medium: classes which are commonly used as the trigger or glue of a chain
+// *   - low: common classes which are only used for detection, such as DNS lookups
+// *
+// * Keep entries sorted by package. Patterns use the same syntax as "denyClasses", so the list
+// * can also be used to reject these classes while parsing
+
+import type GadgetSignature from '@/types/gadget-signature';
+
+export const GADGET_SIGNATURES: readonly GadgetSignature[] = [
+	// * Apache Commons BeanUtils
+	{ pattern: 'org.apache.commons.beanutils.BeanComparator', severity: 'high', description: 'Calls arbitrary getters while comparing, such as TemplatesImpl.getOutputProperties', chains: ['CommonsBeanutils1'] },
+
+	// * Apache Commons Collections 3
+	{ pattern: 'org.apache.commons.collections.functors.InvokerTransformer', severity: 'critical', description: 'Invokes arbitrary methods by reflection', chains: ['CommonsCollections1', 'CommonsCollections5', 'CommonsCollections6', 'CommonsCollections7'] },
+	{ pattern: 'org.apache.commons.collections.functors.InstantiateTransformer', severity: 'critical', description: 'Calls arbitrary constructors', chains: ['CommonsCollections3'] },
+	{ pattern: 'org.apache.commons.collections.functors.ChainedTransformer', severity: 'high', description: 'Chains transformers together to build method calls', chains: ['CommonsCollections1', 'CommonsCollections3', 'CommonsCollections5', 'CommonsCollections6', 'CommonsCollections7'] },
+	{ pattern: 'org.apache.commons.collections.functors.ConstantTransformer', severity: 'medium', description: 'Supplies the starting object of a transformer chain' },
+	{ pattern: 'org.apache.commons.collections.map.LazyMap', severity: 'medium', description: 'Runs a transformer when a missing key is read', chains: ['CommonsCollections1', 'CommonsCollections5', 'CommonsCollections6', 'CommonsCollections7'] },
+	{ pattern: 'org.apache.commons.collections.keyvalue.TiedMapEntry', severity: 'medium', description: 'Reads from a LazyMap from hashCode and toString', chains: ['CommonsCollections5', 'CommonsCollections6'] },
+
+	// * Apache Commons Collections 4
+	{ pattern: 'org.apache.commons.collections4.functors.InvokerTransformer', severity: 'critical', description: 'Invokes arbitrary methods by reflection', chains: ['CommonsCollections2'] },
+	{ pattern: 'org.apache.commons.collections4.functors.InstantiateTransformer', severity: 'critical', description: 'Calls arbitrary constructors', chains: ['CommonsCollections4'] },
+	{ pattern: 'org.apache.commons.collections4.functors.ChainedTransformer', severity: 'high', description: 'Chains transformers together to build method calls', chains: ['CommonsCollections4'] },
+	{ pattern: 'org.apache.commons.collections4.comparators.TransformingComparator', severity: 'high', description: 'Runs a transformer while comparing, such as when a PriorityQueue is rebuilt', chains: ['CommonsCollections2', 'CommonsCollections4'] },
+
+	// * Apache Commons FileUpload and Wicket
+	{ pattern: 'org.apache.commons.fileupload.disk.DiskFileItem', severity: 'high', description: 'Writes and deletes arbitrary files when deserialized', chains: ['FileUpload1'] },
+	{ pattern: 'org.apache.wicket.util.upload.DiskFileItem', severity: 'high', description: 'Writes and deletes arbitrary files when deserialized', chains: ['Wicket1'] },
+
+	// * Apache Click, MyFaces and XBean
+	{ pattern: 'org.apache.click.control.Column$ColumnComparator', severity: 'high', description: 'Calls arbitrary getters while comparing', chains: ['Click1'] },
+	{ pattern: 'org.apache.myfaces.view.facelets.el.ValueExpressionMethodExpression', severity: 'high', description: 'Evaluates EL expressions from hashCode', chains: ['Myfaces1', 'Myfaces2'] },
+	{ pattern: 'org.apache.xbean.naming.context.ContextUtil$ReadOnlyBinding', severity: 'critical', description: 'Performs JNDI lookups from toString' },
+
+	// * Xalan
+	{ pattern: 'com.sun.org.apache.xalan.internal.xsltc.trax.TemplatesImpl', severity: 'critical', description: 'Loads and runs embedded bytecode', chains: ['CommonsBeanutils1', 'CommonsCollections2', 'CommonsCollections3', 'Jdk7u21', 'Spring1'] },
+	{ pattern: 'org.apache.xalan.xsltc.trax.TemplatesImpl', severity: 'critical', description: 'Loads and runs embedded bytecode' },
+
+	// * BeanShell, Clojure, Groovy, Jython and Rhino
+	{ pattern: 'bsh.XThis', severity: 'critical', description: 'Runs BeanShell scripts through a proxy', chains: ['BeanShell1'] },
+	{ pattern: 'clojure.core$comp', severity: 'critical', description: 'Composes Clojure functions which run code', chains: ['Clojure'] },
+	{ pattern: 'clojure.main$eval_opt', severity: 'critical', description: 'Evaluates Clojure code', chains: ['Clojure'] },
+	{ pattern: 'org.codehaus.groovy.runtime.ConvertedClosure', severity: 'critical', description: 'Runs Groovy closures through a proxy', chains: ['Groovy1'] },
+	{ pattern: 'org.codehaus.groovy.runtime.MethodClosure', severity: 'critical', description: 'Invokes arbitrary methods, such as Runtime.exec', chains: ['Groovy1'] },
+	{ pattern: 'org.python.core.PyFunction', severity: 'critical', description: 'Runs Python code through a proxy', chains: ['Jython1'] },
+	{ pattern: 'org.mozilla.javascript.NativeJavaObject', severity: 'high', description: 'Calls arbitrary methods from JavaScript objects', chains: ['MozillaRhino1', 'MozillaRhino2'] },
+
+	// * Hibernate, C3P0 and JBoss
+	{ pattern: 'org.hibernate.engine.spi.TypedValue', severity: 'high', description: 'Calls arbitrary getters from hashCode', chains: ['Hibernate1', 'Hibernate2'] },
+	{ pattern: 'org.hibernate.tuple.component.AbstractComponentTuplizer', severity: 'high', description: 'Calls arbitrary getters', chains: ['Hibernate1', 'Hibernate2'] },
+	{ pattern: 'com.mchange.v2.c3p0.impl.PoolBackedDataSourceBase', severity: 'critical', description: 'Loads classes from a remote URL', chains: ['C3P0'] },
+	{ pattern: 'org.jboss.interceptor.proxy.InterceptorMethodHandler', severity: 'high', description: 'Invokes interceptor methods', chains: ['JBossInterceptors1', 'JavassistWeld1'] },
+
+	// * JSON and feed libraries
+	{ pattern: 'com.alibaba.fastjson.JSONArray', severity: 'high', description: 'Calls arbitrary getters from toString' },
+	{ pattern: 'net.sf.json.JSONObject', severity: 'high', description: 'Calls arbitrary getters while comparing', chains: ['JSON1'] },
+	{ pattern: 'com.sun.syndication.feed.impl.ObjectBean', severity: 'high', description: 'Calls arbitrary getters from hashCode', chains: ['ROME'] },
+	{ pattern: 'com.rometools.rome.feed.impl.ObjectBean', severity: 'high', description: 'Calls arbitrary getters from hashCode' },
+
+	// * Spring
+	{ pattern: 'org.springframework.core.SerializableTypeWrapper$MethodInvokeTypeProvider', severity: 'critical', description: 'Invokes arbitrary methods when deserialized', chains: ['Spring1'] },
+	{ pattern: 'org.springframework.beans.factory.support.AutowireUtils$ObjectFactoryDelegatingInvocationHandler', severity: 'high', description: 'Returns attacker controlled objects through a proxy', chains: ['Spring1'] },
+	{ pattern: 'org.springframework.aop.framework.JdkDynamicAopProxy', severity: 'high', description: 'Returns attacker controlled objects through a proxy', chains: ['Spring2'] },
+	{ pattern: 'org.springframework.transaction.jta.JtaTransactionManager', severity: 'critical', description: 'Performs JNDI lookups when deserialized' },
+
+	// * Vaadin
+	{ pattern: 'com.vaadin.data.util.NestedMethodProperty', severity: 'high', description: 'Calls arbitrary getters', chains: ['Vaadin1'] },
+
+	// * JDK
+	{ pattern: 'com.sun.jndi.rmi.registry.ReferenceWrapper', severity: 'critical', description: 'Points JNDI lookups at remote classes' },
+	{ pattern: 'com.sun.rowset.JdbcRowSetImpl', severity: 'critical', description: 'Performs JNDI lookups of an attacker controlled name' },
+	{ pattern: 'sun.reflect.annotation.AnnotationInvocationHandler', severity: 'high', description: 'Calls map methods through a proxy when deserialized', chains: ['CommonsCollections1', 'CommonsCollections3', 'Jdk7u21'] },
+	{ pattern: 'sun.rmi.server.UnicastRef', severity: 'high', description: 'Opens outgoing RMI connections', chains: ['JRMPClient'] },
+	{ pattern: 'java.rmi.server.RemoteObjectInvocationHandler', severity: 'high', description: 'Opens outgoing RMI connections through a proxy', chains: ['JRMPClient'] },
+	{ pattern: 'javax.management.BadAttributeValueExpException', severity: 'medium', description: 'Calls toString on an attacker controlled object when deserialized', chains: ['CommonsCollections5', 'ROME'] },
+	{ pattern: 'javax.naming.Reference', severity: 'medium', description: 'Describes a remote object for JNDI to load' },
+	{ pattern: 'java.net.URL', severity: 'low', description: 'Resolves its host name from hashCode. Used to detect deserialization through DNS lookups', chains: ['URLDNS'] }
+];
@@ -1,13 +1,10 @@
-export { default as ObjectInputStream } from '@/object-input-stream';
+// * Entry point for Node. Adds the Node only input streams and ObjectStreamParser to the
+// * platform independent API in browser.ts, and replaces BufferOutputStream with one which
+// * can also return a Buffer
 
-export { ClassData } from '@/object-input-stream';
-export { JavaObject } from '@/object-input-stream';
-export { JavaClassDesc } from '@/object-input-stream';
-export { JavaClassDescInfo } from '@/object-input-stream';
-export { JavaClassDescInfoField } from '@/object-input-stream';
-export { JavaString } from '@/object-input-stream';
-export { JavaLongString } from '@/object-input-stream';
-export { BlockData } from '@/object-input-stream';
-export { BlockDataLong } from '@/object-input-stream';
-export { JavaArray } from '@/object-input-stream';
-export { JavaEnum } from '@/object-input-stream';
\ No newline at end of file
+export * from '@/browser';
+
+export { default as BufferOutputStream } from '@/node-buffer-output-stream';
+export { default as FileInputStream } from '@/file-input-stream';
+export { default as ReadableInputStream } from '@/readable-input-stream';
+export { default as ObjectStreamParser } from '@/object-stream-parser';
@@ -0,0 +1,108 @@
+// * Java "modified UTF-8" encoding, used by DataInput/DataOutput for readUTF/writeUTF.
+// * See https://docs.oracle.com/en/java/javase/11/docs/api/java.base/java/io/DataInput.html#modified-utf-8
+// *
+// * Differs from standard UTF-8 in two ways:
+// *   - NUL is encoded as 2 bytes, "C0 80", rather than 1
+// *   - Supplementary characters are encoded as their UTF-16 surrogate pairs, each
+// *     surrogate taking 3 bytes (CESU-8), rather than as a single 4 byte sequence
+// *
+// * Strings are decoded into UTF-16 code units, which is also how JavaScript stores
+// * strings, so surrogate pairs come out as the correct characters with no extra work
+
+const REPLACEMENT_CHARACTER = 0xFFFD;
+const CHUNK_SIZE = 0x2000; // * Max number of code units passed to String.fromCharCode at once
+
+export function decodeModifiedUTF8(data: Uint8Array, strict = true): string {
+	const units: number[] = [];
+	let string = '';
+	let offset = 0;
+
+	const malformed = (message: string): void => {
+		if (strict) {
+			throw new Error(`Malformed modified UTF-8 input at byte ${offset}. ${message}`);
+		}
+
+		units.push(REPLACEMENT_CHARACTER);
+		offset++; // * Resync on the next byte
+	};
+
+	while (offset < data.length) {
+		const byte1 = data[offset];
+
+		if (byte1 < 0x80) {
+			// * 0xxxxxxx
+			units.push(byte1);
+			offset += 1;
+		} else if ((byte1 & 0xE0) === 0xC0) {
+			// * 110xxxxx 10xxxxxx
+			if (offset + 1 >= data.length) {
+				malformed('Truncated 2 byte sequence');
+			} else if ((data[offset + 1] & 0xC0) !== 0x80) {
+				malformed('Invalid continuation byte');
+			} else {
+				units.push(((byte1 & 0x1F) << 6) | (data[offset + 1] & 0x3F));
+				offset += 2;
+			}
+		} else if ((byte1 & 0xF0) === 0xE0) {
+			// * 1110xxxx 10xxxxxx 10xxxxxx
+			if (offset + 2 >= data.length) {
+				malformed('Truncated 3 byte sequence');
+			} else if ((data[offset + 1] & 0xC0) !== 0x80 || (data[offset + 2] & 0xC0) !== 0x80) {
+				malformed('Invalid continuation byte');
+			} else {
+				units.push(((byte1 & 0x0F) << 12) | ((data[offset + 1] & 0x3F) << 6) | (data[offset + 2] & 0x3F));
+				offset += 3;
+			}
+		} else {
+			// * 10xxxxxx and 1111xxxx are never valid lead bytes
+			malformed(`Invalid lead byte 0x${byte1.toString(16).padStart(2, '0')}`);
+		}
+
+		if (units.length >= CHUNK_SIZE) {
+			string += String.fromCharCode(...units);
+			units.length = 0;
+		}
+	}
+
+	return string + String.fromCharCode(...units);
+}
+
+export function encodeModifiedUTF8(value: string): Uint8Array {
+	let length = 0;
+
+	for (let i = 0; i < value.length; i++) {
+		length += encodedLength(value.charCodeAt(i));
+	}
+
+	const data = new Uint8Array(length);
+	let offset = 0;
+
+	for (let i = 0; i < value.length; i++) {
+		const unit = value.charCodeAt(i);
+
+		if (unit >= 0x0001 && unit <= 0x007F) {
+			data[offset++] = unit;
+		} else if (unit <= 0x07FF) {
+			data[offset++] = 0xC0 | (unit >> 6);
+			data[offset++] = 0x80 | (unit & 0x3F);
+		} else {
+			data[offset++] = 0xE0 | (unit >> 12);
+			data[offset++] = 0x80 | ((unit >> 6) & 0x3F);
+			data[offset++] = 0x80 | (unit & 0x3F);
+		}
+	}
+
+	return data;
+}
+
+function encodedLength(unit: number): number {
+	if (unit >= 0x0001 && unit <= 0x007F) {
+		return 1;
+	}
+
+	if (unit <= 0x07FF) {
+		return 2;
+	}
+
+	return 3;
+}
\ No newline at end of file
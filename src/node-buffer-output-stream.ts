@@ -0,0 +1,13 @@
+// * BufferOutputStream which can also return its data as a Node Buffer. Exported as
+// * BufferOutputStream from the Node entry point, and left out of the browser build
+
+import BufferOutputStream from '@/buffer-output-stream';
+
+export default class NodeBufferOutputStream extends BufferOutputStream {
+	// * Same as "toBytes", as a Node Buffer
+	public toBuffer(): Buffer {
+		const data = this.toBytes();
+
+		return Buffer.from(data.buffer, data.byteOffset, data.length);
+	}
+}
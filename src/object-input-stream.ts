@@ -4,12 +4,39 @@
 // *
 // * Based on both https://github.com/NickstaDB/SerializationDumper and https://github.com/node-modules/java.io
 
+import { decodeModifiedUTF8 } from '@/modified-utf8';
+import { dataView, concatBytes, bytesEqual, toHex } from '@/bytes';
+import AnnotationCursor from '@/annotation-cursor';
+import { InsufficientDataError, JavaSerializationError, SecurityLimitError, TYPE_CODE_NAMES, wrapParseError } from '@/errors';
+import { matchesClassPattern, componentClassName } from '@/class-filter';
+import { PRIMITIVE_SIZES, isPrimitiveTypeCode, decodePrimitiveArray } from '@/primitive-arrays';
+import type ClassRegistry from '@/class-registry';
 import type InputStream from '@/types/input-stream';
+import type ExternalReader from '@/types/external-reader';
+import type ClassHandler from '@/types/class-handler';
+import type ObjectInputStreamOptions from '@/types/object-input-stream-options';
+import type { AsyncInputStream } from '@/types/input-stream';
+import type ReadDiagnostic from '@/types/read-diagnostic';
+import type StreamLimits from '@/types/stream-limits';
+import type JavaArrayValues from '@/types/java-array-values';
+import type JavaValue from '@/types/java-value';
+
+interface ParserState {
+	references: unknown[];
+	referencesLength: number;
+	currentHandle: number;
+	blockDataRemaining: number;
+	diagnosticsLength: number;
+	resyncFrom: number | null;
+	stopped: boolean;
+	referenceCount: number;
+	headerRead: boolean;
+};
 
 export default class ObjectInputStream {
 	private stream: InputStream;
 
-	private readonly STREAM_MAGIC = Buffer.from([ 0xAC, 0xED ]);
+	private readonly STREAM_MAGIC = Uint8Array.from([ 0xAC, 0xED ]);
 	private readonly STREAM_VERSION = 5;
 	private readonly TC_NULL = 0x70;
 	private readonly TC_REFERENCE = 0x71;
@@ -39,84 +66,534 @@ export default class ObjectInputStream {
 	// TODO - Remove this "any"
 	private references: any[] = [];
 
-	constructor(stream: InputStream) {
+	private externalReaders?: ClassRegistry<ExternalReader>;
+	private classHandlers?: ClassRegistry<ClassHandler>;
+	private strictUTF: boolean;
+	private charArraysAsStrings: boolean;
+	private lenient: boolean;
+	private resync: boolean;
+	private limits: StreamLimits;
+	private allowClasses?: string[];
+	private denyClasses?: string[];
+	private referenceCount = 0; // * Number of TC_REFERENCE back-references read, for "maxReferences"
+	private parsing = 0; // * Non-zero while reading content elements. Primitive readers read block data when zero
+	private blockDataRemaining = 0; // * Unread bytes in the current top-level block data segment
+	private path: string[] = []; // * Class and field names leading to the value being read. Used for errors
+	private building: (JavaObject | JavaArray | null)[] = []; // * Objects and arrays currently being read, outermost first. Class descriptions are null
+	private annotationDepths: number[] = []; // * Depth in "building" of the elements of each annotation currently being read, outermost first
+	private skipElement = false; // * Set in lenient mode when the rest of the current top-level element cannot be read
+	private stopped = false; // * Set in lenient mode once an error is hit, unless resyncing
+	private resyncFrom: number | null = null; // * Offset of the last error, while looking for the next readable object
+	private headerRead = false;
+	private awaitedLength = 0; // * Bytes which must be buffered before a partially arrived element is read again
+
+	public diagnostics: ReadDiagnostic[] = []; // * Errors skipped over in lenient mode
+
+	constructor(stream: InputStream, options: ObjectInputStreamOptions = {}) {
 		this.stream = stream;
-
-		const magic = this.stream.read(2);
-
-		if (!this.STREAM_MAGIC.equals(magic)) {
-			throw new Error('Bad magic');
-		}
-
-		const version = this.stream.readUInt16BE();
-
-		if (version !== this.STREAM_VERSION) {
-			throw new Error('Bad version');
+		this.externalReaders = options.externalReaders;
+		this.classHandlers = options.classHandlers;
+		this.strictUTF = options.strictUTF ?? true;
+		this.charArraysAsStrings = options.charArraysAsStrings ?? false;
+		this.lenient = options.lenient ?? false;
+		this.resync = options.resync ?? false;
+		this.limits = options.limits ?? {};
+		this.allowClasses = options.allowClasses;
+		this.denyClasses = options.denyClasses;
+
+		// * Streams which receive their data over time may not have the header yet. It is
+		// * read by the first read instead, which can be retried like any other read
+		if (!isAsyncInputStream(stream) || stream.available() >= 4 || stream.isEnded()) {
+			this.readStreamHeader();
 		}
 	}
 
 	// * Begin helper methods. Used to emulate https://docs.oracle.com/en/java/javase/11/docs/api/java.base/java/io/ObjectInputStream.html
 	// * and to assist in internal data reading. Can be defined in whatever order makes sense
 
+	// * Outside of objects the primitive readers read from the block data between top-level
+	// * objects, the same way Java does. Inside of objects (such as from an ExternalReader)
+	// * they read directly from the stream
+
 	public readBoolean(): boolean {
-		return this.stream.readBoolean();
+		return this.readPrimitive(1)[0] !== 0;
 	}
 
 	public readByte(): number {
-		return this.stream.readInt8();
+		return dataView(this.readPrimitive(1)).getInt8(0);
 	}
 
 	public readChar(): string {
-		const charCode = this.stream.readUInt16BE();
+		const charCode = dataView(this.readPrimitive(2)).getUint16(0);
 		return String.fromCharCode(charCode);
 	}
 
 	public readDouble(): number {
-		return this.stream.readDoubleBE();
+		return dataView(this.readPrimitive(8)).getFloat64(0);
 	}
 
 	public readFloat(): number {
-		return this.stream.readFloatBE();
+		return dataView(this.readPrimitive(4)).getFloat32(0);
 	}
 
 	public readInt(): number {
-		return this.stream.readInt32BE();
+		return dataView(this.readPrimitive(4)).getInt32(0);
 	}
 
 	public readLong(): bigint {
-		return this.stream.readInt64BE();
+		return dataView(this.readPrimitive(8)).getBigInt64(0);
 	}
 
 	public readShort(): number {
-		return this.stream.readInt16BE();
+		return dataView(this.readPrimitive(2)).getInt16(0);
 	}
 
 	public readUnsignedByte(): number {
-		return this.stream.readUInt8();
+		return this.readPrimitive(1)[0];
 	}
 
 	public readUnsignedShort(): number {
-		return this.stream.readUInt16BE();
+		return dataView(this.readPrimitive(2)).getUint16(0);
 	}
 
 	public readUTF(): string {
-		const length = this.stream.readUInt16BE();
-		return this.stream.read(length).toString();
+		const length = this.readUnsignedShort();
+
+		this.checkLimit('maxStringBytes', length, 'String');
+		this.checkTotalBytes(length);
+
+		return decodeModifiedUTF8(this.readPrimitive(length), this.strictUTF);
 	}
 
 	public readLongUTF(): string {
-		const length = this.stream.readInt64BE();
-		return this.stream.read(Number(length)).toString();
+		const length = this.readLong();
+
+		if (length < 0n || length > BigInt(Number.MAX_SAFE_INTEGER)) {
+			throw this.error(`Invalid long string length ${length}`, null, this.stream.pos() - 8);
+		}
+
+		this.checkLimit('maxStringBytes', Number(length), 'String');
+		this.checkTotalBytes(Number(length));
+
+		return decodeModifiedUTF8(this.readPrimitive(Number(length)), this.strictUTF);
+	}
+
+	public readFully(length: number): Uint8Array {
+		return this.readPrimitive(length);
+	}
+
+	// * Number of bytes of primitive data which can be read before reading the next
+	// * top-level block data header
+	public available(): number {
+		return this.blockDataRemaining;
+	}
+
+	// * Reads the next top-level object. Like Java, throws if there is primitive data left
+	// * before the next object, or if the next element is block data. Resets are consumed.
+	// * "T" should be set to whatever the registered class handlers return
+	public readObject<T = JavaObject>(): T {
+		this.readStreamHeader();
+
+		if (this.blockDataRemaining !== 0) {
+			throw this.error(`Cannot read object. ${this.blockDataRemaining} bytes of primitive data are left before the next object`);
+		}
+
+		return this.parse(() => {
+			this.skipResets();
+
+			if (!this.stream.hasDataLeft()) {
+				throw this.error('Cannot read object. No data left');
+			}
+
+			const typeCode = this.stream.peek();
+
+			if (typeCode === this.TC_BLOCKDATA || typeCode === this.TC_BLOCKDATALONG) {
+				throw this.error('Cannot read object. Next element is primitive data', typeCode);
+			}
+
+			return this.readContentElement();
+		});
+	}
+
+	// * Objects are returned as JavaObjects, unless a class handler is registered for them.
+	// * "T" should be set to whatever the registered class handlers return
+	public readAll<T = JavaObject>(): T[] {
+		return Array.from(this) as T[];
+	}
+
+	// * Yields every top-level content element left in the stream, including block data.
+	// * "TC_RESET" markers between elements are yielded as JavaReset, so they are written back
+	public *[Symbol.iterator](): Generator<unknown> {
+		while (true) {
+			const result = this.readElement();
+
+			if (result.done) {
+				return;
+			}
+
+			yield result.value;
+		}
+	}
+
+	// * Same as the sync iterator, but waits for data to arrive on streams which receive their
+	// * data over time, such as ReadableInputStream. Elements which have only partially arrived
+	// * are read again once more data is available
+	public async *[Symbol.asyncIterator](): AsyncGenerator<unknown> {
+		const stream = this.stream;
+
+		if (!isAsyncInputStream(stream)) {
+			yield* this;
+			return;
+		}
+
+		while (true) {
+			const result = this.readAvailableElement();
+
+			if (result === null) {
+				await stream.waitFor(this.awaitedLength);
+				continue;
+			}
+
+			if (result.done) {
+				return;
+			}
+
+			yield result.value;
+		}
+	}
+
+	// * Not found in the Java API. Reads the next top-level element, for streams which receive
+	// * their data over time. If the element has only partially arrived, the stream and the
+	// * parser are rewound to the start of the element and null is returned, so it can be read
+	// * again once more data has arrived. The element is not read again until enough data has
+	// * arrived for the read which ran out, so large elements are not re-parsed for every chunk.
+	// * The handle table is kept between elements
+	public readAvailableElement(): IteratorResult<unknown> | null {
+		const stream = this.stream;
+		const rewindable = isAsyncInputStream(stream);
+
+		if (rewindable && !stream.isEnded() && stream.available() < this.awaitedLength) {
+			return null;
+		}
+
+		const state = this.saveState();
+
+		this.awaitedLength = 0;
+
+		if (rewindable) {
+			stream.mark();
+		}
+
+		try {
+			return this.readElement();
+		} catch (error) {
+			if (!rewindable || !(error instanceof InsufficientDataError)) {
+				throw error;
+			}
+
+			stream.reset();
+			this.restoreState(state);
+			this.awaitedLength = stream.available() + error.missing;
+
+			return null;
+		}
+	}
+
+	// * In lenient mode, errors are recorded in "diagnostics" instead of being thrown. Whatever
+	// * the failed element had read so far is returned, and reading either stops there or
+	// * continues from the next readable object
+	private readElement(): IteratorResult<unknown> {
+		this.readStreamHeader();
+
+		if (this.stopped) {
+			return { done: true, value: undefined };
+		}
+
+		if (this.resyncFrom !== null) {
+			return this.readResyncedElement();
+		}
+
+		if (!this.hasElementsLeft()) {
+			return { done: true, value: undefined };
+		}
+
+		try {
+			return { done: false, value: this.readTopLevelElement() };
+		} catch (error) {
+			if (!this.lenient || !(error instanceof JavaSerializationError) || error instanceof SecurityLimitError) {
+				throw error;
+			}
+
+			const partial = this.building[0] ?? null;
+
+			this.diagnostics.push({ error, partial, skipped: 0 });
+			this.blockDataRemaining = 0;
+
+			if (this.resync || this.skipElement) {
+				this.skipElement = false;
+				this.resyncFrom = this.stream.pos();
+			} else {
+				this.stopped = true;
+			}
+
+			if (partial !== null) {
+				return { done: false, value: partial };
+			}
+
+			return this.readElement();
+		}
+	}
+
+	// * Scans for the next TC_OBJECT byte and tries to read an object from there, until one is
+	// * read successfully. Handles assigned by failed attempts are discarded. Best effort only,
+	// * since back-references into the damaged data may resolve to the wrong objects
+	private readResyncedElement(): IteratorResult<unknown> {
+		const diagnostic = this.diagnostics[this.diagnostics.length - 1];
+
+		while (true) {
+			const found = this.parse(() => {
+				while (this.stream.hasDataLeft() && this.stream.peek() !== this.TC_OBJECT) {
+					this.stream.skip(1);
+				}
+
+				return this.stream.hasDataLeft();
+			});
+
+			diagnostic.skipped = this.stream.pos() - this.resyncFrom!;
+
+			if (!found) {
+				this.resyncFrom = null;
+
+				return { done: true, value: undefined };
+			}
+
+			const state = this.saveState();
+
+			try {
+				const value = this.readTopLevelElement();
+
+				this.resyncFrom = null;
+
+				return { done: false, value };
+			} catch (error) {
+				if (!(error instanceof JavaSerializationError) || error instanceof SecurityLimitError) {
+					throw error;
+				}
+
+				this.restoreState(state);
+			}
+		}
+	}
+
+	private readPrimitive(length: number): Uint8Array {
+		if (this.parsing !== 0) {
+			return this.stream.read(length);
+		}
+
+		this.readStreamHeader();
+
+		try {
+			return this.readBlockData(length);
+		} catch (error) {
+			throw this.wrapError(error);
+		}
+	}
+
+	private readBlockData(length: number): Uint8Array {
+		if (length <= this.blockDataRemaining) {
+			this.blockDataRemaining -= length;
+
+			return this.stream.read(length);
+		}
+
+		// * Values may be split across multiple block data segments
+		const parts: Uint8Array[] = [];
+		let remaining = length;
+
+		while (remaining > 0) {
+			if (this.blockDataRemaining === 0) {
+				this.readBlockDataHeader();
+			}
+
+			const part = this.stream.read(Math.min(remaining, this.blockDataRemaining));
+
+			parts.push(part);
+			remaining -= part.length;
+			this.blockDataRemaining -= part.length;
+		}
+
+		return concatBytes(parts, length);
+	}
+
+	private readBlockDataHeader(): void {
+		this.parse(() => {
+			this.skipResets();
+
+			if (!this.stream.hasDataLeft()) {
+				throw this.error('Cannot read primitive data. No data left');
+			}
+
+			const typeCode = this.stream.peek();
+
+			if (typeCode === this.TC_BLOCKDATA) {
+				this.stream.skip(1);
+				this.blockDataRemaining = this.stream.readUInt8();
+				this.checkBlockDataSize(this.blockDataRemaining);
+			} else if (typeCode === this.TC_BLOCKDATALONG) {
+				this.stream.skip(1);
+				this.blockDataRemaining = this.stream.readInt32BE();
+				this.checkBlockDataSize(this.blockDataRemaining);
+			} else {
+				throw this.error('Cannot read primitive data. Next element is not block data', typeCode);
+			}
+		});
+	}
+
+	// * STREAM_MAGIC and STREAM_VERSION. Only read once
+	private readStreamHeader(): void {
+		if (this.headerRead) {
+			return;
+		}
+
+		this.parse(() => {
+			const magic = this.stream.read(2);
+
+			if (!bytesEqual(this.STREAM_MAGIC, magic)) {
+				throw this.error(`Bad magic 0x${toHex(magic)}`, null, 0);
+			}
+
+			const version = this.stream.readUInt16BE();
+
+			if (version !== this.STREAM_VERSION) {
+				throw this.error(`Bad version ${version}`, null, 2);
+			}
+		});
+
+		this.headerRead = true;
+	}
+
+	// * Elements left, including any primitive data which was only partially read
+	private hasElementsLeft(): boolean {
+		return this.blockDataRemaining !== 0 || this.stream.hasDataLeft();
+	}
+
+	private readTopLevelElement(): unknown {
+		if (this.blockDataRemaining !== 0) {
+			// * Whatever is left of block data partially read using the primitive readers
+			const blockData = new BlockData();
+
+			blockData.data = this.parse(() => this.stream.read(this.blockDataRemaining));
+			this.blockDataRemaining = 0;
+
+			return blockData;
+		}
+
+		return this.parse(() => {
+			if (this.stream.peek() === this.TC_RESET) {
+				return this.readTC_RESET();
+			}
+
+			return this.readContentElement();
+		});
+	}
+
+	// * Resets are only valid between top-level elements
+	private skipResets(): void {
+		while (this.stream.hasDataLeft() && this.stream.peek() === this.TC_RESET) {
+			this.readTC_RESET();
+		}
 	}
 
-	public readAll(): JavaObject[] {
-		const objects: JavaObject[] = [];
+	// * Errors thrown while parsing, such as running out of data or errors thrown by
+	// * external readers and class handlers, are wrapped in a JavaSerializationError.
+	// * InsufficientDataError is passed through so partially arrived elements can be rewound
+	private parse<T>(callback: () => T): T {
+		if (this.parsing === 0) {
+			this.path = [];
+			this.building = [];
+			this.annotationDepths = [];
+		}
+
+		this.parsing++;
 
-		while (this.stream.hasDataLeft()) {
-			objects.push(this.readContentElement());
+		try {
+			return callback();
+		} catch (error) {
+			throw this.wrapError(error);
+		} finally {
+			this.parsing--;
 		}
+	}
+
+	private wrapError(error: unknown): unknown {
+		if (error instanceof JavaSerializationError || error instanceof InsufficientDataError) {
+			return error;
+		}
+
+		return wrapParseError(error, {
+			offset: this.stream.pos(),
+			path: [...this.path]
+		});
+	}
+
+	private error(reason: string, typeCode: number | null = null, offset = this.stream.pos()): JavaSerializationError {
+		return new JavaSerializationError(reason, {
+			offset,
+			typeCode,
+			path: [...this.path]
+		});
+	}
+
+	// * Reads a value nested inside of an object or array, and passes it to "store". Segments
+	// * are only removed once the value has been read, so the path is still intact when an
+	// * error is thrown. If reading fails, whatever was read of the value is still stored, so
+	// * lenient mode can return partially read graphs
+	private readNested(segment: string, read: () => JavaValue, store: (value: JavaValue) => void): void {
+		const depth = this.building.length;
+
+		this.path.push(segment);
+
+		try {
+			store(read());
+		} catch (error) {
+			const partial = this.building[depth];
+
+			if (partial) {
+				store(partial);
+			}
+
+			throw error;
+		}
+
+		this.path.pop();
+	}
+
+	private saveState(): ParserState {
+		return {
+			references: this.references,
+			referencesLength: this.references.length,
+			currentHandle: this.currentHandle,
+			blockDataRemaining: this.blockDataRemaining,
+			diagnosticsLength: this.diagnostics.length,
+			resyncFrom: this.resyncFrom,
+			stopped: this.stopped,
+			referenceCount: this.referenceCount,
+			headerRead: this.headerRead
+		};
+	}
 
-		return objects;
+	// * Undoes everything read since the state was saved. Resets replace the handle table
+	// * rather than clearing it, so the saved table is still intact
+	private restoreState(state: ParserState): void {
+		this.references = state.references;
+		this.references.length = state.referencesLength;
+		this.currentHandle = state.currentHandle;
+		this.blockDataRemaining = state.blockDataRemaining;
+		this.diagnostics.length = state.diagnosticsLength;
+		this.resyncFrom = state.resyncFrom;
+		this.stopped = state.stopped;
+		this.referenceCount = state.referenceCount;
+		this.headerRead = state.headerRead;
 	}
 
 	private readContentElement(): any { // TODO - Remove this "any"
@@ -126,30 +603,58 @@ export default class ObjectInputStream {
 		// * content:
 		// *   object
 		// *   blockdata
+		// * object:
+		// *   newObject
+		// *   newClass
+		// *   newArray
+		// *   newString
+		// *   newEnum
+		// *   newClassDesc
+		// *   prevObject
+		// *   nullReference
+		// *   exception
+		// *   TC_RESET
 		const typeCode = this.stream.peek();
 
 		switch (typeCode) {
+			case this.TC_NULL:
+				return this.readNullReference();
+			case this.TC_REFERENCE:
+				return this.readPrevObject();
+			case this.TC_CLASSDESC:
+			case this.TC_PROXYCLASSDESC:
+				return this.readNewClassDesc();
 			case this.TC_OBJECT:
 				return this.readNewObject();
 			case this.TC_STRING:
 				return this.readNewString();
+			case this.TC_ARRAY:
+				return this.readNewArray();
+			case this.TC_CLASS:
+				return this.readNewClass();
 			case this.TC_BLOCKDATA:
 				return this.readTC_BLOCKDATA();
 			case this.TC_BLOCKDATALONG:
 				return this.readTC_BLOCKDATALONG();
+			case this.TC_EXCEPTION:
+				return this.readTC_EXCEPTION();
 			case this.TC_LONGSTRING:
 				return this.readNewString();
-			case this.TC_REFERENCE:
-				return this.readPrevObject();
+			case this.TC_ENUM:
+				return this.readNewEnum();
+			case this.TC_RESET:
+				throw this.error('Unexpected TC_RESET inside of an object', typeCode);
 
 			default:
-				throw new Error(`Unsupported type code ${typeCode}`);
+				throw this.error('Unsupported type code', typeCode);
 		}
 	}
 
-	private readValues(classDesc: JavaClassDesc): void {
+	private readValues(classDesc: JavaClassDesc, classData: ClassData): void {
+		const className = shortClassName(classDesc);
+
 		for (const field of classDesc.info.fields) {
-			classDesc.classData.values[field.name] = this.readFieldValue(field.typeCode);
+			this.readNested(`${className}.${field.name}`, () => this.readFieldValue(field.typeCode), value => classData.values[field.name] = value);
 		}
 	}
 
@@ -176,7 +681,7 @@ export default class ObjectInputStream {
 			case 'L': // * Object
 				return this.readObjectFieldValue();
 			default:
-				throw new Error(`Unsupported field type ${typeCode}`);
+				throw this.error(`Unsupported field type ${typeCode}`);
 		}
 	}
 
@@ -190,9 +695,11 @@ export default class ObjectInputStream {
 				return this.readNewArray();
 			case this.TC_REFERENCE:
 				return this.readPrevObject();
+			case this.TC_EXCEPTION:
+				return this.readTC_EXCEPTION();
 
 			default:
-				throw new Error(`Unsupported readArrayFieldValue type code ${typeCode}`);
+				throw this.error('Unexpected type code for an array field', typeCode);
 		}
 	}
 
@@ -206,13 +713,19 @@ export default class ObjectInputStream {
 				return this.readNewObject();
 			case this.TC_STRING:
 				return this.readTC_STRING();
+			case this.TC_ARRAY:
+				return this.readNewArray();
 			case this.TC_REFERENCE:
 				return this.readPrevObject();
+			case this.TC_CLASS:
+				return this.readNewClass();
+			case this.TC_EXCEPTION:
+				return this.readTC_EXCEPTION();
 			case this.TC_ENUM:
 				return this.readNewEnum();
 
 			default:
-				throw new Error(`Unsupported readObjectFieldValue type code ${typeCode}`);
+				throw this.error('Unexpected type code for an object field', typeCode);
 		}
 	}
 
@@ -236,7 +749,7 @@ export default class ObjectInputStream {
 			case this.TC_REFERENCE:
 				return this.readPrevObject();
 			default:
-				throw new Error(`Unsupported classDesc type code ${typeCode}`);
+				throw this.error('Unexpected type code for a classDesc', typeCode);
 		}
 	}
 
@@ -245,14 +758,27 @@ export default class ObjectInputStream {
 		// *   TC_CLASSDESC className serialVersionUID newHandle classDescInfo
 		// *   TC_PROXYCLASSDESC newHandle proxyClassDescInfo
 		const typeCode = this.stream.peek();
+		let classDesc: JavaClassDesc;
+
+		// * Objects inside of class annotations are not part of the value being read, so they
+		// * are never returned as partial values in lenient mode
+		this.enter(null);
 
 		switch (typeCode) {
 			case this.TC_CLASSDESC:
-				return this.readTC_CLASSDESC();
+				classDesc = this.readTC_CLASSDESC();
+				break;
+			case this.TC_PROXYCLASSDESC:
+				classDesc = this.readTC_PROXYCLASSDESC();
+				break;
 
 			default:
-				throw new Error(`Unsupported newClassDesc type code ${typeCode}`);
+				throw this.error('Unexpected type code for a newClassDesc', typeCode);
 		}
+
+		this.building.pop();
+
+		return classDesc;
 	}
 
 	private readClassDescInfo(): JavaClassDescInfo {
@@ -268,6 +794,31 @@ export default class ObjectInputStream {
 		return classDescInfo;
 	}
 
+	private readProxyClassDescInfo(): { interfaces: string[]; info: JavaClassDescInfo } {
+		// * proxyClassDescInfo:
+		// *   (int)<count> proxyInterfaceName[count] classAnnotation
+		// *       superClassDesc
+		// * proxyInterfaceName:
+		// *   (utf)
+		const interfaces: string[] = [];
+		const count = this.readInt();
+
+		for (let i = 0; i < count; i++) {
+			interfaces.push(this.readUTF());
+			this.checkClass(interfaces[i]);
+		}
+
+		const classDescInfo = new JavaClassDescInfo();
+
+		// * Proxy classes have no fields of their own and are always serializable.
+		// * Flags are not written for them, so set them to match what Java uses
+		classDescInfo.flags = this.SC_SERIALIZABLE;
+		classDescInfo.annotation = this.readClassAnnotation();
+		classDescInfo.superClass = this.readClassDesc();
+
+		return { interfaces, info: classDescInfo };
+	}
+
 	private readFields(): JavaClassDescInfoField[] {
 		// * fields:
 		// *   (short)<count>  fieldDesc[count]
@@ -298,68 +849,180 @@ export default class ObjectInputStream {
 		return field;
 	}
 
-	private readClassAnnotation(): any[] { // TODO - Remove this "any"
+	// * "owner" names the class the annotation belongs to, for the path of errors. Elements are
+	// * added to "annotations" as they are read, so partially read objects keep them
+	private readClassAnnotation(owner?: string, annotations: JavaValue[] = []): JavaValue[] {
 		// * classAnnotation:
 		// *   endBlockData
 		// *   contents endBlockData      // contents written by annotateClass
-		let annotations: any[] = []; // TODO - Remove this "any"
+		this.annotationDepths.push(this.building.length);
 
 		while (this.stream.peek() !== this.TC_ENDBLOCKDATA) {
-			annotations.push(this.readContentElement());
+			if (owner === undefined) {
+				annotations.push(this.readContentElement());
+			} else {
+				this.readNested(`${owner}[${annotations.length}]`, () => this.readContentElement(), value => annotations.push(value));
+			}
 		}
 
+		this.annotationDepths.pop();
 		this.stream.skip(1); // * Skip the TC_ENDBLOCKDATA byte
 
 		return annotations;
 	}
 
+	private readNewClass(): JavaClass {
+		// * newClass:
+		// *   TC_CLASS classDesc newHandle
+		const typeCode = this.readByte();
+
+		if (typeCode !== this.TC_CLASS) {
+			throw this.error('Expected TC_CLASS', typeCode & 0xFF, this.stream.pos() - 1);
+		}
+
+		const javaClass = new JavaClass();
+
+		javaClass.description = this.readClassDesc();
+		this.newHandle(javaClass);
+
+		return javaClass;
+	}
+
 	private readNewArray(): JavaArray {
 		// * newArray:
 		// *   TC_ARRAY classDesc newHandle (int)<size> values[size]
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_ARRAY) {
-			throw new Error(`Invalid TC_ARRAY type code ${typeCode}`);
+			throw this.error('Expected TC_ARRAY', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const array = new JavaArray();
 
-		array.description = this.readClassDesc();
+		array.classDesc = this.readClassDesc();
 		this.newHandle(array);
+		this.enter(array);
 
 		const size = this.readInt();
 
-		if (array.description) {
-			for (let i = 0; i < size; i++) {
-				array.values.push(this.readFieldValue(array.description.className.value[1]))
+		if (size < 0) {
+			throw this.error(`Invalid array size ${size}`, null, this.stream.pos() - 4);
+		}
+
+		this.checkLimit('maxArrayLength', size, 'Array length');
+		this.checkTotalBytes(size); // * Every element takes at least 1 byte
+
+		if (array.classDesc) {
+			const typeCode = array.classDesc.className.value[1];
+
+			if (isPrimitiveTypeCode(typeCode)) {
+				const length = size * PRIMITIVE_SIZES[typeCode];
+
+				this.checkTotalBytes(length);
+				array.values = decodePrimitiveArray(typeCode, this.readPrimitive(length), this.charArraysAsStrings);
+			} else {
+				const values: JavaValue[] = [];
+
+				array.values = values;
+
+				for (let i = 0; i < size; i++) {
+					this.readNested(`[${i}]`, () => this.readFieldValue(typeCode), value => values.push(value));
+				}
 			}
 		}
 
+		this.building.pop();
+
 		return array;
 	}
 
-	private readNewObject(): JavaObject {
+	private readNewObject(): unknown {
 		// * newObject:
 		// *   TC_OBJECT classDesc newHandle classdata[]  // data for each class
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_OBJECT) {
-			throw new Error(`Invalid TC_OBJECT type code ${typeCode}`);
+			throw this.error('Expected TC_OBJECT', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const object = new JavaObject();
 
-		object.description = this.readClassDesc();
+		object.classDesc = this.readClassDesc();
 		this.newHandle(object);
+		this.enter(object);
 
-		if (object.description) {
-			this.readClassData(object.description);
+		if (object.classDesc) {
+			const classDesc = object.classDesc;
+
+			// * Nested objects are already named by the field or annotation they are read from
+			const isRoot = this.path.length === 0;
+
+			if (isRoot) {
+				this.path.push(shortClassName(classDesc));
+			}
+
+			this.readClassData(object);
+
+			const result = this.handleObject(object);
+
+			if (isRoot) {
+				this.path.pop();
+			}
+
+			this.building.pop();
+
+			return result;
 		}
 
+		this.building.pop();
+
 		return object;
 	}
 
-	private readClassData(classDesc: JavaClassDesc | null): void {
+	// * Passes the object to the class handler registered for its class, if any. Similar to
+	// * readResolve in Java, the handlers result replaces the object in the handle table, so
+	// * later references to the object also get the result. References to the object from
+	// * inside of its own data have already been read, and still point to the JavaObject
+	private handleObject(object: JavaObject): unknown {
+		const classDesc = object.classDesc!;
+		const handler = this.classHandlers?.get(classDesc.className.value, classDesc.serialVersionUID);
+
+		if (!handler) {
+			return object;
+		}
+
+		const values: Record<string, JavaValue> = {};
+
+		// * Fields of sub-classes take priority over fields of the same name in super-classes
+		for (const description of object.hierarchy().reverse()) {
+			Object.assign(values, object.classData.get(description)?.values);
+		}
+
+		const cursor = new AnnotationCursor(object.classData.get(classDesc)?.annotation ?? [], {
+			strictUTF: this.strictUTF
+		});
+
+		const result = handler(values, cursor, {
+			ois: this,
+			object,
+			classDesc
+		});
+
+		if (result === undefined) {
+			return object;
+		}
+
+		const index = object.handle - this.baseWireHandle;
+
+		// * The handle table may have been reset while reading the objects data
+		if (this.references[index] === object) {
+			this.references[index] = result;
+		}
+
+		return result;
+	}
+
+	private readClassData(object: JavaObject): void {
 		// * classdata:
 		// *   nowrclass                 // SC_SERIALIZABLE & classDescFlag &&
 		// *                             // !(SC_WRITE_METHOD & classDescFlags)
@@ -373,19 +1036,16 @@ export default class ObjectInputStream {
 		// *   values                    // fields in order of class descriptor
 		// * wrclass:
 		// *   nowrclass
-		let classHierarchy: JavaClassDesc[] = [];
+		const classHierarchy = object.hierarchy().reverse();
 
-		while (classDesc) {
-			classHierarchy.push(classDesc);
-			classDesc = classDesc.info?.superClass || null;
-		}
+		for (const classDescription of classHierarchy) {
+			const classData = new ClassData();
 
-		classHierarchy = classHierarchy.reverse();
+			object.classData.set(classDescription, classData);
 
-		for (const classDescription of classHierarchy) {
 			let hasObjectAnnotation = false;
 			if (classDescription.hasFlag(this.SC_SERIALIZABLE)) {
-				this.readValues(classDescription);
+				this.readValues(classDescription, classData);
 
 				if (classDescription.hasFlag(this.SC_WRITE_METHOD)) {
 					hasObjectAnnotation = true;
@@ -396,18 +1056,73 @@ export default class ObjectInputStream {
 				if (classDescription.hasFlag(this.SC_BLOCKDATA)) {
 					hasObjectAnnotation = true;
 				} else {
-					throw new Error('Cannot parse externalContents. Only protocol version 2 supported')
+					classData.annotation = this.readExternalContents(classDescription);
 				}
 			}
 
 			if (hasObjectAnnotation) {
 				// * Data encoded with writeObject (version 1) or writeExternal (version 2).
 				// * Is encoded the same way as class annotations
-				classDescription.classData.annotation = this.readClassAnnotation();
+				this.readClassAnnotation(shortClassName(classDescription), classData.annotation);
 			}
 		}
 	}
 
+	private readExternalContents(classDesc: JavaClassDesc): JavaValue[] {
+		// * externalContents:         // externalContent written by
+		// *   externalContent         // writeExternal in PROTOCOL_VERSION_1.
+		// *   externalContents externalContent
+		// * externalContent:          // Only parseable by readExternal
+		// *   ( bytes)                // primitive data
+		// *   object
+		// *
+		// * Data written using PROTOCOL_VERSION_1 is not framed in block data, so
+		// * there is no way to know where it ends without knowing the class layout
+		const className = classDesc.className.value;
+		const reader = this.externalReaders?.get(className, classDesc.serialVersionUID);
+
+		if (reader) {
+			return reader(this, {
+				classDesc,
+				readObject: () => this.readContentElement()
+			});
+		}
+
+		return [ this.readRawExternalContents(className) ];
+	}
+
+	// * Without a reader, the contents are captured as raw bytes when something marks where
+	// * they end. Objects read directly from an annotation end at its TC_ENDBLOCKDATA, and
+	// * top-level objects at the end of the stream, as long as no other type code comes
+	// * first. Best effort only, since primitive data may contain the TC_ENDBLOCKDATA byte.
+	// * Otherwise, lenient mode skips to the next top-level object
+	private readRawExternalContents(className: string): ExternalData {
+		const depth = this.building.length - 1; // * Depth of the object the contents belong to
+		const annotationDepth = this.annotationDepths[this.annotationDepths.length - 1];
+		const offset = this.stream.pos();
+		const bytes: number[] = [];
+
+		while (this.stream.hasDataLeft() && !isTypeCode(this.stream.peek())) {
+			this.checkTotalBytes(1);
+			bytes.push(this.stream.readUInt8());
+		}
+
+		const endsAnnotation = annotationDepth === depth && this.stream.hasDataLeft() && this.stream.peek() === this.TC_ENDBLOCKDATA;
+		const endsStream = depth === 0 && annotationDepth === undefined && !this.stream.hasDataLeft();
+
+		if (!endsAnnotation && !endsStream) {
+			this.skipElement = this.lenient;
+
+			throw this.error(`Cannot parse externalContents for ${className}. PROTOCOL_VERSION_1 data requires a registered external reader, unless it ends an annotation or the stream`, null, offset);
+		}
+
+		const externalData = new ExternalData();
+
+		externalData.data = Uint8Array.from(bytes);
+
+		return externalData;
+	}
+
 	private readNewString(): any { // TODO - Remove this "any"
 		// * newString:
 		// *   TC_STRING newHandle (utf)
@@ -423,7 +1138,7 @@ export default class ObjectInputStream {
 				return this.readPrevObject();
 
 			default:
-				throw new Error(`Unsupported newString type code ${typeCode}`);
+				throw this.error('Unexpected type code for a newString', typeCode);
 		}
 	}
 
@@ -433,12 +1148,12 @@ export default class ObjectInputStream {
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_ENUM) {
-			throw new Error(`Invalid TC_ENUM type code ${typeCode}`);
+			throw this.error('Expected TC_ENUM', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const jenum = new JavaEnum(); // * TypeScript throws a fit if you use "enum" as a variable name...
 
-		jenum.description = this.readClassDesc();
+		jenum.classDesc = this.readClassDesc();
 		this.newHandle(jenum);
 
 		jenum.constant = this.readNewString();
@@ -452,16 +1167,20 @@ export default class ObjectInputStream {
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_REFERENCE) {
-			throw new Error(`Invalid TC_REFERENCE type code ${typeCode}`);
+			throw this.error('Expected TC_REFERENCE', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
-		// * Return a clone because new data is written to the class instance.
-		// * In JavaScript this will update ALL references to the instance.
 		const handle = this.readInt();
-		const object = this.references[handle - this.baseWireHandle];
-		const clone = object.clone();
+		const index = handle - this.baseWireHandle;
 
-		return clone;
+		this.referenceCount++;
+		this.checkLimit('maxReferences', this.referenceCount, 'Reference count');
+
+		if (index < 0 || index >= this.references.length) {
+			throw this.error(`Invalid TC_REFERENCE handle 0x${handle.toString(16)}`, null, this.stream.pos() - 4);
+		}
+
+		return this.references[index];
 	}
 
 	private readNullReference(): null {
@@ -475,11 +1194,73 @@ export default class ObjectInputStream {
 	private newHandle(object: { handle: number }): void {
 		// * newHandle:       // The next number in sequence is assigned
 		// *                  // to the object being serialized or deserialized
-		object.handle = ++this.currentHandle;
+		this.checkLimit('maxHandles', this.references.length + 1, 'Handle count');
+		this.checkTotalBytes(0);
+
+		object.handle = this.currentHandle++;
 
 		this.references.push(object);
 	}
 
+	// * Tracks the object, array or class description being read. Nesting is limited by "maxDepth"
+	private enter(value: JavaObject | JavaArray | null): void {
+		this.building.push(value);
+		this.checkLimit('maxDepth', this.building.length, 'Nesting depth');
+	}
+
+	private checkLimit(limit: keyof StreamLimits, value: number, description: string): void {
+		const max = this.limits[limit];
+
+		if (max !== undefined && value > max) {
+			throw new SecurityLimitError(`${description} ${value} exceeds ${limit} of ${max}`, limit, {
+				offset: this.stream.pos(),
+				path: [...this.path]
+			});
+		}
+	}
+
+	// * Checked before reading data of a known size, so oversized data is never read
+	private checkTotalBytes(length: number): void {
+		this.checkLimit('maxTotalBytes', this.stream.pos() + length, 'Total bytes');
+	}
+
+	private checkBlockDataSize(size: number): void {
+		if (size < 0) {
+			throw this.error(`Invalid block data size ${size}`, null, this.stream.pos() - 4);
+		}
+
+		this.checkLimit('maxBlockDataBytes', size, 'Block data size');
+		this.checkTotalBytes(size);
+	}
+
+	private checkClass(className: string): void {
+		const name = componentClassName(className);
+
+		if (name === null) {
+			return;
+		}
+
+		const details = {
+			offset: this.stream.pos(),
+			path: [...this.path]
+		};
+
+		if (this.allowClasses && !this.allowClasses.some(pattern => matchesClassPattern(name, pattern))) {
+			throw new SecurityLimitError(`Class ${className} is not allowed`, 'allowClasses', details);
+		}
+
+		if (this.denyClasses?.some(pattern => matchesClassPattern(name, pattern))) {
+			throw new SecurityLimitError(`Class ${className} is denied`, 'denyClasses', details);
+		}
+	}
+
+	private resetHandles(): void {
+		// * resetContext:    // The handle table is cleared and handles
+		// *                  // begin again from baseWireHandle
+		this.references = [];
+		this.currentHandle = this.baseWireHandle;
+	}
+
 	// * Begin type code (TC) readers. Should be defined in numerical order by type code
 
 	private readTC_CLASSDESC(): JavaClassDesc {
@@ -487,17 +1268,18 @@ export default class ObjectInputStream {
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_CLASSDESC) {
-			throw new Error(`Invalid TC_CLASSDESC type code ${typeCode}`);
+			throw this.error('Expected TC_CLASSDESC', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const classDesc = new JavaClassDesc();
 
 		classDesc.className.value = this.readUTF();
+		this.checkClass(classDesc.className.value);
 		classDesc.serialVersionUID = this.readLong();
 		this.newHandle(classDesc);
 		classDesc.info = this.readClassDescInfo();
 
-		return classDesc;
+		return freezeClassDesc(classDesc);
 	}
 
 	private readTC_STRING(): JavaString {
@@ -505,7 +1287,7 @@ export default class ObjectInputStream {
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_STRING) {
-			throw new Error(`Invalid TC_STRING type code ${typeCode}`);
+			throw this.error('Expected TC_STRING', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const string = new JavaString();
@@ -522,40 +1304,77 @@ export default class ObjectInputStream {
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_BLOCKDATA) {
-			throw new Error(`Invalid TC_BLOCKDATA type code ${typeCode}`);
+			throw this.error('Expected TC_BLOCKDATA', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const blockData = new BlockData();
-		const size = this.readByte();
+		const size = this.readUnsignedByte();
+
+		this.checkBlockDataSize(size);
 
 		blockData.data = this.stream.read(size);
 
 		return blockData;
 	}
 
+	private readTC_RESET(): JavaReset {
+		// * TC_RESET
+		// *
+		// * Clears the handle table. Handles start again from baseWireHandle
+		const typeCode = this.readByte();
+
+		if (typeCode !== this.TC_RESET) {
+			throw this.error('Expected TC_RESET', typeCode & 0xFF, this.stream.pos() - 1);
+		}
+
+		this.resetHandles();
+
+		return new JavaReset();
+	}
+
 	private readTC_BLOCKDATALONG(): BlockDataLong {
 		// * blockdatalong:
 		// *   TC_BLOCKDATALONG (int)<size> (byte)[size]
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_BLOCKDATALONG) {
-			throw new Error(`Invalid TC_BLOCKDATALONG type code ${typeCode}`);
+			throw this.error('Expected TC_BLOCKDATALONG', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const blockData = new BlockDataLong();
 		const size = this.readInt();
 
+		this.checkBlockDataSize(size);
+
 		blockData.data = this.stream.read(size);
 
 		return blockData;
 	}
 
+	private readTC_EXCEPTION(): JavaException {
+		// * exception:
+		// *   TC_EXCEPTION reset (Throwable)object reset
+		const typeCode = this.readByte();
+
+		if (typeCode !== this.TC_EXCEPTION) {
+			throw this.error('Expected TC_EXCEPTION', typeCode & 0xFF, this.stream.pos() - 1);
+		}
+
+		const exception = new JavaException();
+
+		this.resetHandles();
+		exception.exception = this.readNewObject() as JavaObject; // * Unless a class handler replaced the throwable
+		this.resetHandles();
+
+		return exception;
+	}
+
 	private readTC_LONGSTRING(): JavaLongString {
 		// * TC_LONGSTRING newHandle (long-utf)
 		const typeCode = this.readByte();
 
 		if (typeCode !== this.TC_LONGSTRING) {
-			throw new Error(`Invalid TC_LONGSTRING type code ${typeCode}`);
+			throw this.error('Expected TC_LONGSTRING', typeCode & 0xFF, this.stream.pos() - 1);
 		}
 
 		const string = new JavaLongString();
@@ -565,45 +1384,162 @@ export default class ObjectInputStream {
 
 		return string;
 	}
+
+	private readTC_PROXYCLASSDESC(): JavaProxyClassDesc {
+		// * TC_PROXYCLASSDESC newHandle proxyClassDescInfo
+		const typeCode = this.readByte();
+
+		if (typeCode !== this.TC_PROXYCLASSDESC) {
+			throw this.error('Expected TC_PROXYCLASSDESC', typeCode & 0xFF, this.stream.pos() - 1);
+		}
+
+		const classDesc = new JavaProxyClassDesc();
+
+		classDesc.className.value = ''; // * Proxy class names are generated at runtime and are not written
+		classDesc.serialVersionUID = 0n; // * Proxy classes always have a serialVersionUID of 0
+		this.newHandle(classDesc);
+
+		const { interfaces, info } = this.readProxyClassDescInfo();
+
+		classDesc.interfaces = interfaces;
+		classDesc.info = info;
+
+		return freezeClassDesc(classDesc);
+	}
+}
+
+function isAsyncInputStream(stream: InputStream): stream is AsyncInputStream {
+	return 'waitFor' in stream && 'mark' in stream && 'reset' in stream;
+}
+
+function isTypeCode(value: number): boolean {
+	return value in TYPE_CODE_NAMES;
+}
+
+// * Class names without their package, such as "ArrayList" for "java.util.ArrayList"
+function shortClassName(classDesc: JavaClassDesc): string {
+	const className = classDesc.className.value;
+
+	if (className === '') {
+		return 'Proxy'; // * Proxy class names are not written
+	}
+
+	return className.slice(className.lastIndexOf('.') + 1);
 }
 
 export class ClassData {
 	public values: Record<string, any> = {}; // TODO - Remove this "any"
 	public annotation: any[] = []; // TODO - Remove this "any"
 
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Deep copies the field values and annotation
+	 */
+	public clone(): ClassData {
 		const clone = new ClassData();
 
 		for (const key in this.values) {
-			const value = this.values[key];
-
-			if (hasMethod(value, 'clone')) {
-				clone.values[key] = value.clone();
-			} else {
-				clone.values[key] = value;
-			}
+			clone.values[key] = cloneValue(this.values[key]);
 		}
 
-		for (const value of this.annotation) {
-			if (hasMethod(value, 'clone')) {
-				clone.annotation.push(value.clone());
-			} else {
-				clone.annotation.push(value);
-			}
-		}
+		clone.annotation = this.annotation.map(cloneValue);
 
 		return clone;
 	}
 }
 
 export class JavaObject {
-	public description?: JavaClassDesc | null;
+	public classDesc: JavaClassDesc | null = null; // * Shared between all objects of the same class
 	public handle!: number;
+	public classData = new Map<JavaClassDesc, ClassData>(); // * Data for each level of the class hierarchy
+
+	private descriptionView: JavaClassDescView | null = null; // * Cached for the deprecated "description" getter
+
+	// * Class descriptions of the objects class hierarchy. Ordered from the objects
+	// * own class to the top-most super-class
+	public hierarchy(): JavaClassDesc[] {
+		const hierarchy: JavaClassDesc[] = [];
+		let classDesc = this.classDesc;
+
+		while (classDesc) {
+			hierarchy.push(classDesc);
+			classDesc = classDesc.info?.superClass || null;
+		}
+
+		return hierarchy;
+	}
+
+	// * Returns the data for a single level of the class hierarchy. Accepts either
+	// * the class description, or the name of the class
+	public getClassData(classDesc: JavaClassDesc | string): ClassData | undefined {
+		if (typeof classDesc !== 'string') {
+			return this.classData.get(classDesc);
+		}
+
+		for (const [ description, classData ] of this.classData) {
+			if (description.className.value === classDesc) {
+				return classData;
+			}
+		}
+
+		return undefined;
+	}
+
+	// * Returns the value of a field, searching the class hierarchy from the objects own class
+	// * up, so the subclass wins if more than one class has a field with the same name. Returns
+	// * undefined if no class in the hierarchy has the field. "T" describes the fields, such as an
+	// * interface generated by "generateTypeScript", and is not checked against the data
+	public get<T extends object = Record<string, unknown>, K extends keyof T & string = keyof T & string>(name: K): T[K] {
+		for (const classDesc of this.hierarchy()) {
+			const values = this.classData.get(classDesc)?.values;
+
+			if (values && Object.prototype.hasOwnProperty.call(values, name)) {
+				return values[name];
+			}
+		}
+
+		return undefined as T[K];
+	}
+
+	// * True if the object is of the class, or a subclass of it. Objects of proxy classes
+	// * are also instances of the interfaces the proxy implements
+	public instanceOf(className: string): boolean {
+		return this.hierarchy().some(classDesc => {
+			if (classDesc instanceof JavaProxyClassDesc) {
+				return classDesc.interfaces.includes(className);
+			}
+
+			return classDesc.className.value === className;
+		});
+	}
+
+	/**
+	 * @deprecated Class data is no longer stored on the class description. Use "classDesc" and "getClassData" instead
+	 */
+	public get description(): JavaClassDescView | null {
+		if (!this.classDesc) {
+			return null;
+		}
+
+		// * Created once, so repeated accesses return the same view. Recreated if "classDesc" was replaced
+		if (this.descriptionView?.classDesc !== this.classDesc) {
+			this.descriptionView = new JavaClassDescView(this, this.classDesc);
+		}
+
+		return this.descriptionView;
+	}
 
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Class descriptions are now shared and frozen, so clones share them instead of copying them.
+	 * Field values are deep copied, so graphs containing cycles cannot be cloned
+	 */
+	public clone(): JavaObject {
 		const clone = new JavaObject();
 
-		clone.description = this.description?.clone();
+		clone.classDesc = this.classDesc;
+
+		for (const [ classDesc, classData ] of this.classData) {
+			clone.classData.set(classDesc, classData.clone());
+		}
 
 		return clone;
 	}
@@ -614,46 +1550,112 @@ export class JavaClassDesc {
 	public serialVersionUID!: bigint;
 	public handle!: number;
 	public info!: JavaClassDescInfo;
-	public classData = new ClassData();
 
 	public hasFlag(flag: number): boolean {
 		return (this.info.flags & flag) === flag;
 	}
 
-	public clone() {
-		const clone = new JavaClassDesc();
+	/**
+	 * @deprecated Will be removed in the next major version. Returns an unfrozen copy, which is no longer shared with the objects of the class
+	 */
+	public clone(): JavaClassDesc {
+		return copyClassDesc(this, new JavaClassDesc());
+	}
+}
 
-		clone.className = this.className.clone();
-		clone.info = this.info.clone();
-		clone.classData = this.classData.clone();
+export class JavaProxyClassDesc extends JavaClassDesc {
+	public interfaces: string[] = [];
+
+	/**
+	 * @deprecated Will be removed in the next major version. Returns an unfrozen copy, which is no longer shared with the objects of the class
+	 */
+	public clone(): JavaProxyClassDesc {
+		const clone = copyClassDesc(this, new JavaProxyClassDesc());
+
+		clone.interfaces = [...this.interfaces];
 
 		return clone;
 	}
 }
 
+// * Compatibility view for code written against the old model, where class data
+// * was stored on the class description. Mirrors the shape of JavaClassDesc, with
+// * "classData" resolved from the object the view was created for
+export class JavaClassDescView {
+	public readonly object: JavaObject;
+	public readonly classDesc: JavaClassDesc;
+
+	private infoView: { source: JavaClassDescInfo; view: JavaClassDescViewInfo; } | null = null;
+
+	constructor(object: JavaObject, classDesc: JavaClassDesc) {
+		this.object = object;
+		this.classDesc = classDesc;
+	}
+
+	public get className(): JavaString {
+		return this.classDesc.className;
+	}
+
+	public get serialVersionUID(): bigint {
+		return this.classDesc.serialVersionUID;
+	}
+
+	public get handle(): number {
+		return this.classDesc.handle;
+	}
+
+	// * Built once, since class descriptions are frozen once read. Rebuilt if the class description was replaced
+	public get info(): JavaClassDescViewInfo {
+		const info = this.classDesc.info;
+
+		if (this.infoView?.source !== info) {
+			const superClass = info.superClass ? new JavaClassDescView(this.object, info.superClass) : info.superClass;
+
+			this.infoView = {
+				source: info,
+				view: {
+					flags: info.flags,
+					fields: info.fields,
+					annotation: info.annotation,
+					superClass
+				}
+			};
+		}
+
+		return this.infoView.view;
+	}
+
+	public get classData(): ClassData {
+		return this.object.classData.get(this.classDesc) ?? new ClassData();
+	}
+
+	public hasFlag(flag: number): boolean {
+		return this.classDesc.hasFlag(flag);
+	}
+}
+
+export interface JavaClassDescViewInfo {
+	flags: number;
+	fields: JavaClassDescInfoField[];
+	annotation: JavaValue[];
+	superClass?: JavaClassDescView | null;
+}
+
 export class JavaClassDescInfo {
 	public flags!: number;
 	public fields: JavaClassDescInfoField[] = [];
 	public annotation: any[] = []; // TODO - Remove this "any"
 	public superClass?: JavaClassDesc | null;
 
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Deep copies the fields, annotation and super-class description
+	 */
+	public clone(): JavaClassDescInfo {
 		const clone = new JavaClassDescInfo();
 
-		clone.flags = Number(this.flags);
-
-		for (const value of this.fields) {
-			clone.fields.push(value.clone());
-		}
-
-		for (const value of this.annotation) {
-			if (hasMethod(value, 'clone')) {
-				clone.annotation.push(value.clone());
-			} else {
-				clone.annotation.push(value);
-			}
-		}
-
+		clone.flags = this.flags;
+		clone.fields = this.fields.map(field => field.clone());
+		clone.annotation = this.annotation.map(cloneValue);
 		clone.superClass = this.superClass?.clone();
 
 		return clone;
@@ -665,11 +1667,14 @@ export class JavaClassDescInfoField {
 	public name!: string;
 	public className1?: JavaString | JavaLongString;
 
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Copies the field description
+	 */
+	public clone(): JavaClassDescInfoField {
 		const clone = new JavaClassDescInfoField();
 
-		clone.typeCode = String(this.typeCode);
-		clone.name = String(this.name);
+		clone.typeCode = this.typeCode;
+		clone.name = this.name;
 		clone.className1 = this.className1?.clone();
 
 		return clone;
@@ -680,63 +1685,91 @@ export class JavaString {
 	public value!: string;
 	public handle!: number;
 
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Copies the string
+	 */
+	public clone(): JavaString {
 		const clone = new JavaString();
 
-		clone.value = String(this.value);
+		clone.value = this.value;
 
 		return clone;
 	}
 }
 
 export class JavaLongString extends JavaString {
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Copies the string
+	 */
+	public clone(): JavaLongString {
 		const clone = new JavaLongString();
 
-		clone.value = String(this.value);
+		clone.value = this.value;
 
 		return clone;
 	}
 }
 
 export class BlockData {
-	public data!: Buffer;
+	public data!: Uint8Array;
 
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Copies the data
+	 */
+	public clone(): BlockData {
 		const clone = new BlockData();
 
-		clone.data = Buffer.from(this.data);
+		clone.data = this.data.slice();
 
 		return clone;
 	}
 }
 
+export class ExternalData {
+	public data!: Uint8Array;
+}
+
 export class BlockDataLong extends BlockData {
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Copies the data
+	 */
+	public clone(): BlockDataLong {
 		const clone = new BlockDataLong();
 
-		clone.data = Buffer.from(this.data);
+		clone.data = this.data.slice();
 
 		return clone;
 	}
 }
 
 export class JavaArray {
-	public description?: JavaClassDesc | null;
+	public classDesc: JavaClassDesc | null = null; // * Shared between all arrays of the same type
 	public handle!: number;
-	public values: any[] = []; // TODO - Remove this "any"
+	public values: JavaArrayValues = [];
+
+	/**
+	 * @deprecated Will be removed in the next major version. Use "classDesc", which matches JavaObject
+	 */
+	public get description(): JavaClassDesc | null {
+		return this.classDesc;
+	}
 
-	public clone() {
+	public set description(classDesc: JavaClassDesc | null | undefined) {
+		this.classDesc = classDesc ?? null;
+	}
+
+	/**
+	 * @deprecated Will be removed in the next major version. Class descriptions are now shared and frozen, so clones share them instead of copying them
+	 */
+	public clone(): JavaArray {
 		const clone = new JavaArray();
 
-		clone.description = this.description?.clone();
+		clone.classDesc = this.classDesc;
 
-		for (const value of this.values) {
-			if (hasMethod(value, 'clone')) {
-				clone.values.push(value.clone());
-			} else {
-				clone.values.push(value);
-			}
+		if (Array.isArray(this.values)) {
+			clone.values = this.values.map(cloneValue);
+		} else {
+			clone.values = typeof this.values === 'string' ? this.values : this.values.slice();
 		}
 
 		return clone;
@@ -744,30 +1777,82 @@ export class JavaArray {
 }
 
 export class JavaEnum {
-	public description?: JavaClassDesc | null;
+	public classDesc: JavaClassDesc | null = null; // * Shared between all constants of the same enum
 	public handle!: number;
 	public constant!: JavaString | JavaLongString;
 
-	public clone() {
+	/**
+	 * @deprecated Will be removed in the next major version. Use "classDesc", which matches JavaObject
+	 */
+	public get description(): JavaClassDesc | null {
+		return this.classDesc;
+	}
+
+	public set description(classDesc: JavaClassDesc | null | undefined) {
+		this.classDesc = classDesc ?? null;
+	}
+
+	/**
+	 * @deprecated Will be removed in the next major version. Class descriptions are now shared and frozen, so clones share them instead of copying them
+	 */
+	public clone(): JavaEnum {
 		const clone = new JavaEnum();
 
-		clone.description = this.description?.clone();
+		clone.classDesc = this.classDesc;
 		clone.constant = this.constant.clone();
 
 		return clone;
 	}
 }
 
-function hasMethod(value: any, methodName: string): boolean {
-	if (value === null || typeof value !== 'object') {
-		return false;
+export class JavaClass {
+	public description?: JavaClassDesc | null;
+	public handle!: number;
+}
+
+export class JavaException {
+	public exception!: JavaObject;
+}
+
+// * A TC_RESET between top-level elements. Has no data of its own, but is kept in the model so
+// * streams written back out clear the handle table at the same point
+export class JavaReset {}
+
+// * Used by the deprecated "clone" methods. Copies everything besides the handle, which
+// * belongs to the original
+function copyClassDesc<T extends JavaClassDesc>(classDesc: JavaClassDesc, clone: T): T {
+	clone.className = classDesc.className.clone();
+	clone.serialVersionUID = classDesc.serialVersionUID;
+	clone.info = classDesc.info.clone();
+
+	return clone;
+}
+
+// * Used by the deprecated "clone" methods. Values without a "clone" method, such as
+// * primitives and decoded values, are copied as-is
+function cloneValue<T>(value: T): T {
+	if (value === null || typeof value !== 'object' || !('clone' in value) || typeof value.clone !== 'function') {
+		return value;
+	}
+
+	return value.clone();
+}
+
+// * Class descriptions are shared by every object of the class, so they
+// * are frozen once read to prevent one object from affecting all others
+function freezeClassDesc<T extends JavaClassDesc>(classDesc: T): T {
+	for (const field of classDesc.info.fields) {
+		Object.freeze(field);
 	}
 
-	const prototype = Object.getPrototypeOf(value);
+	Object.freeze(classDesc.info.fields);
+	Object.freeze(classDesc.info.annotation);
+	Object.freeze(classDesc.info);
+	Object.freeze(classDesc.className);
 
-	if (prototype === null || prototype === Object.prototype) {
-		return false;
+	if (classDesc instanceof JavaProxyClassDesc) {
+		Object.freeze(classDesc.interfaces);
 	}
 
-	return typeof value[methodName] === 'function';
+	return Object.freeze(classDesc);
 }
\ No newline at end of file
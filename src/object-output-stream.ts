@@ -0,0 +1,552 @@
+// * TypeScript implementation of the https://docs.oracle.com/en/java/javase/11/docs/api/java.base/java/io/ObjectOutputStream.html
+// * Which is part of the https://docs.oracle.com/en/java/javase/11/docs/specs/serialization API used for writing Java serialized
+// * objects. See https://docs.oracle.com/javase/6/docs/platform/serialization/spec/protocol.html for details on the protocol
+// *
+// * Writes the same object model produced by ObjectInputStream. Graphs read by ObjectInputStream
+// * and written back without modification produce byte-identical output
+
+import {
+	ClassData,
+	JavaObject,
+	JavaClassDesc,
+	JavaClassDescInfoField,
+	JavaString,
+	JavaLongString,
+	BlockData,
+	BlockDataLong,
+	ExternalData,
+	JavaArray,
+	JavaEnum,
+	JavaClass,
+	JavaProxyClassDesc,
+	JavaException,
+	JavaReset
+} from '@/object-input-stream';
+import { encodeModifiedUTF8 } from '@/modified-utf8';
+import { isPrimitiveTypeCode, encodePrimitiveArray } from '@/primitive-arrays';
+import type OutputStream from '@/types/output-stream';
+import type JavaValue from '@/types/java-value';
+
+export default class ObjectOutputStream {
+	private stream: OutputStream;
+
+	private readonly STREAM_MAGIC = Uint8Array.from([ 0xAC, 0xED ]);
+	private readonly STREAM_VERSION = 5;
+	private readonly TC_NULL = 0x70;
+	private readonly TC_REFERENCE = 0x71;
+	private readonly TC_CLASSDESC = 0x72;
+	private readonly TC_OBJECT = 0x73;
+	private readonly TC_STRING = 0x74;
+	private readonly TC_ARRAY = 0x75;
+	private readonly TC_CLASS = 0x76;
+	private readonly TC_BLOCKDATA = 0x77;
+	private readonly TC_ENDBLOCKDATA = 0x78;
+	private readonly TC_RESET = 0x79;
+	private readonly TC_BLOCKDATALONG = 0x7A;
+	private readonly TC_EXCEPTION = 0x7B;
+	private readonly TC_LONGSTRING = 0x7C;
+	private readonly TC_PROXYCLASSDESC = 0x7D;
+	private readonly TC_ENUM = 0x7E;
+
+	private readonly baseWireHandle = 0x7E0000;
+	private currentHandle = 0x7E0000; // * Used for reference assignments
+
+	private readonly SC_WRITE_METHOD = 0X01;
+	private readonly SC_SERIALIZABLE = 0X02;
+	private readonly SC_EXTERNALIZABLE = 0X04;
+	private readonly SC_BLOCKDATA = 0X08;
+
+	// * Handles of everything written so far, matched by identity
+	private handles = new Map<object, number>();
+
+	constructor(stream: OutputStream) {
+		this.stream = stream;
+
+		this.stream.write(this.STREAM_MAGIC);
+		this.stream.writeUInt16BE(this.STREAM_VERSION);
+	}
+
+	// * Begin helper methods. Used to emulate https://docs.oracle.com/en/java/javase/11/docs/api/java.base/java/io/ObjectOutputStream.html
+	// * and to assist in internal data writing. Can be defined in whatever order makes sense
+
+	public writeBoolean(value: boolean): void {
+		this.stream.writeBoolean(value);
+	}
+
+	public writeByte(value: number): void {
+		this.stream.writeInt8(value);
+	}
+
+	public writeChar(value: string): void {
+		this.stream.writeUInt16BE(value.charCodeAt(0));
+	}
+
+	public writeDouble(value: number): void {
+		this.stream.writeDoubleBE(value);
+	}
+
+	public writeFloat(value: number): void {
+		this.stream.writeFloatBE(value);
+	}
+
+	public writeInt(value: number): void {
+		this.stream.writeInt32BE(value);
+	}
+
+	public writeLong(value: bigint): void {
+		this.stream.writeInt64BE(value);
+	}
+
+	public writeShort(value: number): void {
+		this.stream.writeInt16BE(value);
+	}
+
+	public writeUnsignedByte(value: number): void {
+		this.stream.writeUInt8(value);
+	}
+
+	public writeUnsignedShort(value: number): void {
+		this.stream.writeUInt16BE(value);
+	}
+
+	public writeUTF(value: string): void {
+		const data = encodeModifiedUTF8(value);
+
+		if (data.length > 0xFFFF) {
+			throw new Error(`String too long for writeUTF. ${data.length} bytes`);
+		}
+
+		this.stream.writeUInt16BE(data.length);
+		this.stream.write(data);
+	}
+
+	public writeLongUTF(value: string): void {
+		const data = encodeModifiedUTF8(value);
+
+		this.stream.writeInt64BE(BigInt(data.length));
+		this.stream.write(data);
+	}
+
+	// * JavaReset is written as TC_RESET, the same as calling "reset"
+	public writeObject(object: JavaValue): void {
+		if (object instanceof JavaReset) {
+			this.reset();
+		} else {
+			this.writeContentElement(object);
+		}
+	}
+
+	public writeAll(objects: JavaValue[]): void {
+		for (const object of objects) {
+			this.writeObject(object);
+		}
+	}
+
+	public reset(): void {
+		// * Writes TC_RESET. Everything written before the reset will be written
+		// * again in full rather than as back-references
+		this.writeTC_RESET();
+	}
+
+	private writeContentElement(object: JavaValue): void {
+		// * contents:
+		// *   content
+		// *   contents content
+		// * content:
+		// *   object
+		// *   blockdata
+		if (object instanceof BlockDataLong) {
+			this.writeTC_BLOCKDATALONG(object);
+		} else if (object instanceof BlockData) {
+			this.writeTC_BLOCKDATA(object);
+		} else {
+			this.writeObjectValue(object);
+		}
+	}
+
+	private writeObjectValue(object: JavaValue | undefined): void {
+		// * object:
+		// *   newObject
+		// *   newClass
+		// *   newArray
+		// *   newString
+		// *   newEnum
+		// *   newClassDesc
+		// *   prevObject
+		// *   nullReference
+		// *   exception
+		if (object === null || object === undefined) {
+			this.writeNullReference();
+			return;
+		}
+
+		if (typeof object !== 'object') {
+			throw new Error(`Unsupported object type ${object.constructor.name}`);
+		}
+
+		if (object instanceof JavaException) {
+			this.writeTC_EXCEPTION(object);
+			return;
+		}
+
+		if (this.writePrevObject(object)) {
+			return;
+		}
+
+		if (object instanceof JavaObject) {
+			this.writeNewObject(object);
+		} else if (object instanceof JavaString) {
+			this.writeNewString(object);
+		} else if (object instanceof JavaClass) {
+			this.writeNewClass(object);
+		} else if (object instanceof JavaArray) {
+			this.writeNewArray(object);
+		} else if (object instanceof JavaEnum) {
+			this.writeNewEnum(object);
+		} else if (object instanceof JavaClassDesc) {
+			this.writeNewClassDesc(object);
+		} else {
+			throw new Error(`Unsupported object type ${object.constructor.name}`);
+		}
+	}
+
+	private writeValues(classDesc: JavaClassDesc, classData: ClassData): void {
+		for (const field of classDesc.info.fields) {
+			this.writeFieldValue(field.typeCode, classData.values[field.name]);
+		}
+	}
+
+	private writeFieldValue(typeCode: string, value: JavaValue | undefined): void {
+		switch (typeCode) {
+			case 'B':
+				return this.writeByte(value as number);
+			case 'C':
+				return this.writeChar(value as string);
+			case 'D':
+				return this.writeDouble(value as number);
+			case 'F':
+				return this.writeFloat(value as number);
+			case 'I':
+				return this.writeInt(value as number);
+			case 'J':
+				return this.writeLong(value as bigint);
+			case 'S':
+				return this.writeShort(value as number);
+			case 'Z':
+				return this.writeBoolean(value as boolean);
+			case '[': // * Array
+			case 'L': // * Object
+				return this.writeObjectValue(value);
+			default:
+				throw new Error(`Unsupported field type ${typeCode}`);
+		}
+	}
+
+	// * Begin type writers. Should be defined in order as they appear in
+	// * https://docs.oracle.com/javase/6/docs/platform/serialization/spec/protocol.html
+
+	private writeClassDesc(classDesc: JavaClassDesc | null | undefined): void {
+		// * classDesc:
+		// *   newClassDesc
+		// *   nullReference
+		// *   (ClassDesc)prevObject      // an object required to be of type
+		// *                              // ClassDesc
+		if (!classDesc) {
+			this.writeNullReference();
+		} else if (!this.writePrevObject(classDesc)) {
+			this.writeNewClassDesc(classDesc);
+		}
+	}
+
+	private writeNewClassDesc(classDesc: JavaClassDesc): void {
+		// * newClassDesc:
+		// *   TC_CLASSDESC className serialVersionUID newHandle classDescInfo
+		// *   TC_PROXYCLASSDESC newHandle proxyClassDescInfo
+		if (classDesc instanceof JavaProxyClassDesc) {
+			this.writeTC_PROXYCLASSDESC(classDesc);
+		} else {
+			this.writeTC_CLASSDESC(classDesc);
+		}
+	}
+
+	private writeClassDescInfo(classDesc: JavaClassDesc): void {
+		// * classDescInfo:
+		// *   classDescFlags fields classAnnotation superClassDesc
+		this.writeByte(classDesc.info.flags);
+		this.writeFields(classDesc.info.fields);
+		this.writeClassAnnotation(classDesc.info.annotation);
+		this.writeClassDesc(classDesc.info.superClass);
+	}
+
+	private writeProxyClassDescInfo(classDesc: JavaProxyClassDesc): void {
+		// * proxyClassDescInfo:
+		// *   (int)<count> proxyInterfaceName[count] classAnnotation
+		// *       superClassDesc
+		// * proxyInterfaceName:
+		// *   (utf)
+		this.writeInt(classDesc.interfaces.length);
+
+		for (const proxyInterfaceName of classDesc.interfaces) {
+			this.writeUTF(proxyInterfaceName);
+		}
+
+		this.writeClassAnnotation(classDesc.info.annotation);
+		this.writeClassDesc(classDesc.info.superClass);
+	}
+
+	private writeFields(fields: JavaClassDescInfoField[]): void {
+		// * fields:
+		// *   (short)<count>  fieldDesc[count]
+		this.writeShort(fields.length);
+
+		for (const field of fields) {
+			this.writeFieldDesc(field);
+		}
+	}
+
+	private writeFieldDesc(field: JavaClassDescInfoField): void {
+		// * fieldDesc:
+		// *   primitiveDesc
+		// *   objectDesc
+		this.writeByte(field.typeCode.charCodeAt(0));
+		this.writeUTF(field.name);
+
+		if (field.typeCode === '[' || field.typeCode === 'L') {
+			// * objectDesc
+			if (!field.className1) {
+				throw new Error(`Field ${field.name} is missing its className1`);
+			}
+
+			this.writeObjectValue(field.className1);
+		}
+	}
+
+	private writeClassAnnotation(annotation: JavaValue[]): void {
+		// * classAnnotation:
+		// *   endBlockData
+		// *   contents endBlockData      // contents written by annotateClass
+		for (const content of annotation) {
+			this.writeContentElement(content);
+		}
+
+		this.writeByte(this.TC_ENDBLOCKDATA);
+	}
+
+	private writeNewClass(javaClass: JavaClass): void {
+		// * newClass:
+		// *   TC_CLASS classDesc newHandle
+		this.writeByte(this.TC_CLASS);
+		this.writeClassDesc(javaClass.description);
+		this.newHandle(javaClass);
+	}
+
+	private writeNewArray(array: JavaArray): void {
+		// * newArray:
+		// *   TC_ARRAY classDesc newHandle (int)<size> values[size]
+		this.writeByte(this.TC_ARRAY);
+		this.writeClassDesc(array.classDesc);
+		this.newHandle(array);
+
+		this.writeInt(array.values.length);
+
+		if (array.classDesc) {
+			const typeCode = array.classDesc.className.value[1];
+
+			if (isPrimitiveTypeCode(typeCode)) {
+				this.stream.write(encodePrimitiveArray(typeCode, array.values));
+			} else {
+				for (const value of array.values as JavaValue[]) {
+					this.writeFieldValue(typeCode, value);
+				}
+			}
+		}
+	}
+
+	private writeNewObject(object: JavaObject): void {
+		// * newObject:
+		// *   TC_OBJECT classDesc newHandle classdata[]  // data for each class
+		this.writeByte(this.TC_OBJECT);
+		this.writeClassDesc(object.classDesc);
+		this.newHandle(object);
+
+		if (object.classDesc) {
+			this.writeClassData(object);
+		}
+	}
+
+	private writeClassData(object: JavaObject): void {
+		// * classdata:
+		// *   nowrclass                 // SC_SERIALIZABLE & classDescFlag &&
+		// *                             // !(SC_WRITE_METHOD & classDescFlags)
+		// *   wrclass objectAnnotation  // SC_SERIALIZABLE & classDescFlag &&
+		// *                             // SC_WRITE_METHOD & classDescFlags
+		// *   externalContents          // SC_EXTERNALIZABLE & classDescFlag &&
+		// *                             // !(SC_BLOCKDATA  & classDescFlags
+		// *   objectAnnotation          // SC_EXTERNALIZABLE & classDescFlag&&
+		// *                             // SC_BLOCKDATA & classDescFlags
+		const classHierarchy = object.hierarchy().reverse();
+
+		for (const classDescription of classHierarchy) {
+			const classData = object.classData.get(classDescription) ?? new ClassData();
+
+			let hasObjectAnnotation = false;
+			if (classDescription.hasFlag(this.SC_SERIALIZABLE)) {
+				this.writeValues(classDescription, classData);
+
+				if (classDescription.hasFlag(this.SC_WRITE_METHOD)) {
+					hasObjectAnnotation = true;
+				}
+			}
+
+			if (classDescription.hasFlag(this.SC_EXTERNALIZABLE)) {
+				if (classDescription.hasFlag(this.SC_BLOCKDATA)) {
+					hasObjectAnnotation = true;
+				} else {
+					this.writeExternalContents(classData.annotation);
+				}
+			}
+
+			if (hasObjectAnnotation) {
+				this.writeClassAnnotation(classData.annotation);
+			}
+		}
+	}
+
+	private writeExternalContents(contents: JavaValue[]): void {
+		// * externalContents:         // externalContent written by
+		// *   externalContent         // writeExternal in PROTOCOL_VERSION_1.
+		// *   externalContents externalContent
+		// * externalContent:          // Only parseable by readExternal
+		// *   ( bytes)                // primitive data
+		// *   object
+		for (const content of contents) {
+			if (content instanceof ExternalData) {
+				this.stream.write(content.data);
+			} else {
+				this.writeObjectValue(content);
+			}
+		}
+	}
+
+	private writeNewString(string: JavaString): void {
+		// * newString:
+		// *   TC_STRING newHandle (utf)
+		// *   TC_LONGSTRING newHandle (long-utf)
+		if (string instanceof JavaLongString) {
+			this.writeTC_LONGSTRING(string);
+		} else {
+			this.writeTC_STRING(string);
+		}
+	}
+
+	private writeNewEnum(jenum: JavaEnum): void {
+		// * newEnum:
+		// *   TC_ENUM classDesc newHandle enumConstantName
+		this.writeByte(this.TC_ENUM);
+		this.writeClassDesc(jenum.classDesc);
+		this.newHandle(jenum);
+
+		this.writeObjectValue(jenum.constant);
+	}
+
+	private writePrevObject(object: object): boolean {
+		// * prevObject
+		// *   TC_REFERENCE (int)handle
+		const handle = this.handles.get(object);
+
+		if (handle === undefined) {
+			return false;
+		}
+
+		this.writeByte(this.TC_REFERENCE);
+		this.writeInt(handle);
+
+		return true;
+	}
+
+	private writeNullReference(): void {
+		// * nullReference
+		// *   TC_NULL
+		this.writeByte(this.TC_NULL);
+	}
+
+	private newHandle(object: object): void {
+		// * newHandle:       // The next number in sequence is assigned
+		// *                  // to the object being serialized or deserialized
+		this.handles.set(object, this.currentHandle++);
+	}
+
+	private resetHandles(): void {
+		// * resetContext:    // The handle table is cleared and handles
+		// *                  // begin again from baseWireHandle
+		this.handles.clear();
+		this.currentHandle = this.baseWireHandle;
+	}
+
+	// * Begin type code (TC) writers. Should be defined in numerical order by type code
+
+	private writeTC_CLASSDESC(classDesc: JavaClassDesc): void {
+		// * TC_CLASSDESC className serialVersionUID newHandle classDescInfo
+		this.writeByte(this.TC_CLASSDESC);
+		this.writeUTF(classDesc.className.value);
+		this.writeLong(classDesc.serialVersionUID);
+		this.newHandle(classDesc);
+		this.writeClassDescInfo(classDesc);
+	}
+
+	private writeTC_STRING(string: JavaString): void {
+		// * TC_STRING newHandle (utf)
+		this.writeByte(this.TC_STRING);
+		this.newHandle(string);
+		this.writeUTF(string.value);
+	}
+
+	private writeTC_BLOCKDATA(blockData: BlockData): void {
+		// * blockdatashort:
+		// *   TC_BLOCKDATA (unsigned byte)<size> (byte)[size]
+		if (blockData.data.length > 0xFF) {
+			throw new Error(`TC_BLOCKDATA too large. ${blockData.data.length} bytes`);
+		}
+
+		this.writeByte(this.TC_BLOCKDATA);
+		this.writeUnsignedByte(blockData.data.length);
+		this.stream.write(blockData.data);
+	}
+
+	private writeTC_RESET(): void {
+		// * TC_RESET
+		this.writeByte(this.TC_RESET);
+		this.resetHandles();
+	}
+
+	private writeTC_BLOCKDATALONG(blockData: BlockDataLong): void {
+		// * blockdatalong:
+		// *   TC_BLOCKDATALONG (int)<size> (byte)[size]
+		this.writeByte(this.TC_BLOCKDATALONG);
+		this.writeInt(blockData.data.length);
+		this.stream.write(blockData.data);
+	}
+
+	private writeTC_EXCEPTION(exception: JavaException): void {
+		// * exception:
+		// *   TC_EXCEPTION reset (Throwable)object reset
+		this.writeByte(this.TC_EXCEPTION);
+		this.resetHandles();
+		this.writeNewObject(exception.exception);
+		this.resetHandles();
+	}
+
+	private writeTC_LONGSTRING(string: JavaLongString): void {
+		// * TC_LONGSTRING newHandle (long-utf)
+		this.writeByte(this.TC_LONGSTRING);
+		this.newHandle(string);
+		this.writeLongUTF(string.value);
+	}
+
+	private writeTC_PROXYCLASSDESC(classDesc: JavaProxyClassDesc): void {
+		// * TC_PROXYCLASSDESC newHandle proxyClassDescInfo
+		this.writeByte(this.TC_PROXYCLASSDESC);
+		this.newHandle(classDesc);
+		this.writeProxyClassDescInfo(classDesc);
+	}
+}
\ No newline at end of file
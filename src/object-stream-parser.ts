@@ -0,0 +1,92 @@
+// * Push-style parser for Java serialized data which arrives in chunks, such as over a socket.
+// * Chunks are passed to "feed" as they arrive, and every top-level element is emitted as an
+// * "object" event as soon as all of its data has arrived. Elements split across chunks are
+// * parsed again from their start once enough data has arrived for the read which ran out.
+// * The handle table is kept between elements, so back-references to earlier objects on the
+// * same stream resolve
+
+import { EventEmitter } from 'node:events';
+import ObjectInputStream from '@/object-input-stream';
+import ChunkedInputStream from '@/chunked-input-stream';
+import type ObjectInputStreamOptions from '@/types/object-input-stream-options';
+import type ReadDiagnostic from '@/types/read-diagnostic';
+
+export default class ObjectStreamParser extends EventEmitter {
+	private stream = new ChunkedInputStream();
+	private ois: ObjectInputStream;
+	private failed = false;
+	private finished = false;
+	private diagnostics = 0; // * Number of diagnostics already emitted
+
+	constructor(options: ObjectInputStreamOptions = {}) {
+		super();
+
+		this.ois = new ObjectInputStream(this.stream, options); // * Reads the stream header once it has arrived
+	}
+
+	public on(event: 'object', listener: (object: unknown) => void): this;
+	public on(event: 'error', listener: (error: Error) => void): this;
+	public on(event: 'diagnostic', listener: (diagnostic: ReadDiagnostic) => void): this; // * Only emitted in lenient mode
+	public on(event: 'end', listener: () => void): this;
+	public on(event: string | symbol, listener: ((object: unknown) => void) | ((error: Error) => void) | ((diagnostic: ReadDiagnostic) => void) | (() => void)): this {
+		return super.on(event, listener);
+	}
+
+	public feed(chunk: Uint8Array): void {
+		if (this.failed || this.finished) {
+			return;
+		}
+
+		this.stream.push(chunk);
+		this.parse();
+	}
+
+	// * Marks that no more data will arrive. Emits "error" if the last element is incomplete
+	public end(): void {
+		if (this.failed || this.finished) {
+			return;
+		}
+
+		this.stream.end();
+		this.parse();
+	}
+
+	private parse(): void {
+		while (true) {
+			let result: IteratorResult<unknown> | null;
+
+			// * Only parsing errors are caught. Errors thrown by listeners are left to the caller of "feed"
+			try {
+				result = this.ois.readAvailableElement();
+			} catch (error) {
+				// * The stream is unusable after an error, since the position of the next element is unknown
+				this.failed = true;
+				this.emit('error', error);
+				return;
+			}
+
+			this.emitDiagnostics();
+
+			if (result === null) {
+				return;
+			}
+
+			if (result.done) {
+				this.finished = true;
+				this.emit('end');
+				return;
+			}
+
+			this.emit('object', result.value);
+		}
+	}
+
+	// * Diagnostics are emitted before the partial element they belong to
+	private emitDiagnostics(): void {
+		const diagnostics = this.ois.diagnostics;
+
+		while (this.diagnostics < diagnostics.length) {
+			this.emit('diagnostic', diagnostics[this.diagnostics++]);
+		}
+	}
+}
@@ -0,0 +1,141 @@
+// * Reads and writes the elements of primitive arrays in bulk. Java writes every element big
+// * endian, so apart from byte[] the data is copied into typed arrays in host byte order
+
+import { dataView, decodeUTF16BE } from '@/bytes';
+import type JavaArrayValues from '@/types/java-array-values';
+
+// * Size in bytes of a single element, by field type code
+export const PRIMITIVE_SIZES: Record<string, number> = {
+	B: 1,
+	C: 2,
+	D: 8,
+	F: 4,
+	I: 4,
+	J: 8,
+	S: 2,
+	Z: 1
+};
+
+export function isPrimitiveTypeCode(typeCode: string): boolean {
+	return Object.prototype.hasOwnProperty.call(PRIMITIVE_SIZES, typeCode);
+}
+
+export function decodePrimitiveArray(typeCode: string, data: Uint8Array, charsAsString = false): JavaArrayValues {
+	const view = dataView(data);
+	const length = data.length / PRIMITIVE_SIZES[typeCode];
+
+	switch (typeCode) {
+		case 'B':
+			return data;
+		case 'Z':
+			return Array.from(data, byte => byte !== 0);
+		case 'C': {
+			if (charsAsString) {
+				return decodeUTF16BE(data);
+			}
+
+			const values = new Uint16Array(length);
+
+			for (let i = 0; i < length; i++) {
+				values[i] = view.getUint16(i * 2);
+			}
+
+			return values;
+		}
+		case 'S': {
+			const values = new Int16Array(length);
+
+			for (let i = 0; i < length; i++) {
+				values[i] = view.getInt16(i * 2);
+			}
+
+			return values;
+		}
+		case 'I': {
+			const values = new Int32Array(length);
+
+			for (let i = 0; i < length; i++) {
+				values[i] = view.getInt32(i * 4);
+			}
+
+			return values;
+		}
+		case 'J': {
+			const values = new BigInt64Array(length);
+
+			for (let i = 0; i < length; i++) {
+				values[i] = view.getBigInt64(i * 8);
+			}
+
+			return values;
+		}
+		case 'F': {
+			const values = new Float32Array(length);
+
+			for (let i = 0; i < length; i++) {
+				values[i] = view.getFloat32(i * 4);
+			}
+
+			return values;
+		}
+		case 'D': {
+			const values = new Float64Array(length);
+
+			for (let i = 0; i < length; i++) {
+				values[i] = view.getFloat64(i * 8);
+			}
+
+			return values;
+		}
+
+		default:
+			throw new Error(`Unsupported primitive array type ${typeCode}`);
+	}
+}
+
+// * Accepts the values produced by "decodePrimitiveArray", as well as plain arrays such as
+// * numbers for byte[] and single character strings for char[]
+export function encodePrimitiveArray(typeCode: string, values: JavaArrayValues): Uint8Array {
+	if (typeCode === 'B' && values instanceof Uint8Array) {
+		return values;
+	}
+
+	const data = new Uint8Array(values.length * PRIMITIVE_SIZES[typeCode]);
+	const view = dataView(data);
+
+	for (let i = 0; i < values.length; i++) {
+		const value = values[i];
+
+		switch (typeCode) {
+			case 'B':
+				view.setInt8(i, value as number);
+				break;
+			case 'Z':
+				view.setUint8(i, value ? 1 : 0);
+				break;
+			case 'C':
+				view.setUint16(i * 2, typeof value === 'string' ? value.charCodeAt(0) : value as number);
+				break;
+			case 'S':
+				view.setInt16(i * 2, value as number);
+				break;
+			case 'I':
+				view.setInt32(i * 4, value as number);
+				break;
+			case 'J':
+				view.setBigInt64(i * 8, value as bigint);
+				break;
+			case 'F':
+				view.setFloat32(i * 4, value as number);
+				break;
+			case 'D':
+				view.setFloat64(i * 8, value as number);
+				break;
+
+			default:
+				throw new Error(`Unsupported primitive array type ${typeCode}`);
+		}
+	}
+
+	return data;
+}
@@ -0,0 +1,201 @@
+// * Navigation over parsed object graphs, without having to know which level of the class
+// * hierarchy owns a field, or where the elements of a collection are stored.
+// *
+// * "walk" visits every value reachable from a root once, even if the graph has
+// * back-references or cycles. "query" selects values using a path of "/" separated steps:
+// *
+// *   - "children" selects the field of an object, resolved the same way as "JavaObject.get"
+// *   - "3" selects an element of an array, or of an objects annotation
+// *   - "*" selects every child of a value
+// *   - "**" selects the value itself and every value below it
+// *   - A class name, such as "com.xk72.charles.model.Transaction", selects every child which
+// *     is an instance of the class. Strings, enum constants and arrays are matched by their
+// *     class too, such as "java.lang.String" or "[I". Class names are told apart from field
+// *     names by their dots or leading "[", and may use the same patterns as "allowClasses",
+// *     such as "com.xk72.charles.model.*"
+// *
+// * For example "**/com.xk72.charles.model.Transaction" selects every transaction in a Charles
+// * session, and "root/children/*" every child of the root node. Class descriptions are not
+// * part of the graph. Use "collectClassDescs" to find them
+
+import {
+	JavaObject,
+	JavaString,
+	JavaArray,
+	JavaEnum,
+	JavaException
+} from '@/object-input-stream';
+import { matchesClassPattern } from '@/class-filter';
+import type JavaValue from '@/types/java-value';
+import type WalkVisitor from '@/types/walk-visitor';
+import type { WalkPath } from '@/types/walk-visitor';
+
+export function walk(root: JavaValue, visitor: WalkVisitor): void {
+	walkAll([root], visitor);
+}
+
+// * Returns the selected values in the order they are first found. Objects selected more
+// * than once are only returned once. "T" should be set to whatever the selector matches
+export function query<T = JavaValue>(root: JavaValue, selector: string): T[] {
+	let current: JavaValue[] = [root];
+
+	for (const step of parseSelector(selector)) {
+		const next: JavaValue[] = [];
+		const seen = new Set<object>();
+		const add = (value: JavaValue): void => {
+			if (value !== null && typeof value === 'object') {
+				if (seen.has(value)) {
+					return;
+				}
+
+				seen.add(value);
+			}
+
+			next.push(value);
+		};
+
+		if (step === '**') {
+			// * Plain arrays are not visited by "walkAll", but still need to be selected, so the
+			// * top-level elements returned by "readAll" can be matched by the next step
+			current.filter(value => Array.isArray(value)).forEach(add);
+			walkAll(current, value => add(value));
+		} else {
+			for (const value of current) {
+				selectStep(value, step, add);
+			}
+		}
+
+		current = next;
+	}
+
+	return current as T[];
+}
+
+function parseSelector(selector: string): string[] {
+	const steps = selector.replace(/^\//, '').split('/');
+
+	if (steps.some(step => step.length === 0)) {
+		throw new Error(`Invalid query ${JSON.stringify(selector)}. Steps cannot be empty`);
+	}
+
+	return steps;
+}
+
+function selectStep(value: JavaValue, step: string, add: (value: JavaValue) => void): void {
+	if (step === '*') {
+		for (const [, child] of children(value)) {
+			add(child);
+		}
+	} else if (/^\d+$/.test(step)) {
+		const index = Number(step);
+
+		for (const [key, child] of children(value)) {
+			if (key === index) {
+				add(child);
+			}
+		}
+	} else if (step.includes('.') || step.startsWith('[')) {
+		for (const [, child] of children(value)) {
+			if (isInstance(child, step)) {
+				add(child);
+			}
+		}
+	} else if (value instanceof JavaObject) {
+		const child = value.get<Record<string, JavaValue>>(step);
+
+		if (child !== undefined) {
+			add(child);
+		}
+	}
+}
+
+function isInstance(value: JavaValue, pattern: string): boolean {
+	if (value instanceof JavaObject && !pattern.includes('*')) {
+		return value.instanceOf(pattern);
+	}
+
+	return classNames(value).some(className => matchesClassPattern(className, pattern));
+}
+
+// * Class names of a value and its super-classes. Strings are written without a class description
+function classNames(value: JavaValue): string[] {
+	if (value instanceof JavaString) {
+		return ['java.lang.String'];
+	}
+
+	const classNames: string[] = [];
+	let classDesc = value instanceof JavaObject || value instanceof JavaEnum || value instanceof JavaArray ? value.classDesc : null;
+
+	for (; classDesc; classDesc = classDesc.info.superClass ?? null) {
+		classNames.push(classDesc.className.value);
+	}
+
+	return classNames;
+}
+
+// * Visits every value reachable from the roots once, depth first. Uses an explicit stack so
+// * deep graphs do not overflow the call stack
+function walkAll(roots: JavaValue[], visitor: WalkVisitor): void {
+	const seen = new Set<object>();
+	const stack: [JavaValue, WalkPath][] = [];
+
+	for (let i = roots.length - 1; i >= 0; i--) {
+		stack.push([roots[i], []]);
+	}
+
+	while (stack.length !== 0) {
+		const [value, path] = stack.pop()!;
+
+		if (value === null || typeof value !== 'object' || seen.has(value)) {
+			continue;
+		}
+
+		seen.add(value);
+
+		// * Plain arrays, such as the elements returned by "readAll", are only walked through
+		if (!Array.isArray(value) && visitor(value, path) === false) {
+			continue;
+		}
+
+		const entries = children(value);
+
+		// * Pushed in reverse, so they are visited in order
+		for (let i = entries.length - 1; i >= 0; i--) {
+			stack.push([entries[i][1], [...path, entries[i][0]]]);
+		}
+	}
+}
+
+// * Direct children of a value, with the step which selects them. Fields are listed from
+// * the top-most super-class down, followed by the annotations in the same order
+export function children(value: JavaValue): [string | number, JavaValue][] {
+	const entries: [string | number, JavaValue][] = [];
+
+	if (value instanceof JavaObject) {
+		const hierarchy = value.hierarchy().reverse();
+
+		for (const classDesc of hierarchy) {
+			for (const [name, field] of Object.entries(value.classData.get(classDesc)?.values ?? {})) {
+				entries.push([name, field]);
+			}
+		}
+
+		let index = 0;
+
+		for (const classDesc of hierarchy) {
+			for (const element of value.classData.get(classDesc)?.annotation ?? []) {
+				entries.push([index++, element]);
+			}
+		}
+	} else if (value instanceof JavaArray) {
+		if (Array.isArray(value.values)) {
+			value.values.forEach((element, index) => entries.push([index, element]));
+		}
+	} else if (value instanceof JavaException) {
+		entries.push(['exception', value.exception]);
+	} else if (Array.isArray(value)) {
+		value.forEach((element, index) => entries.push([index, element]));
+	}
+
+	return entries;
+}
@@ -0,0 +1,19 @@
+// * InputStream adapter over a Node Readable. Chunks are queued as they arrive,
+// * and reads are served synchronously from whatever has been buffered so far.
+// * ObjectInputStream can be created before any data has arrived, since it reads the
+// * stream header on its first read. Use "waitFor" or "waitForEnd" to make sure enough
+// * data has arrived before calling the sync readers, or use ObjectInputStream's async
+// * iterator which waits for data itself
+
+import type { Readable } from 'node:stream';
+import ChunkedInputStream from '@/chunked-input-stream';
+
+export default class ReadableInputStream extends ChunkedInputStream {
+	constructor(readable: Readable) {
+		super();
+
+		readable.on('data', (chunk: Uint8Array | string) => this.push(chunk));
+		readable.on('end', () => this.end());
+		readable.on('error', (error: Error) => this.destroy(error));
+	}
+}
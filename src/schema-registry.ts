@@ -0,0 +1,176 @@
+// * Collects the class descriptions found in parsed object graphs, so the layout of every
+// * class seen across one or more streams can be inspected, or turned into TypeScript types
+// * using "generateTypeScript". Classes seen with different layouts, such as two versions of
+// * the same class, are merged. Fields missing from some versions are marked as optional
+
+import {
+	JavaObject,
+	JavaArray,
+	JavaEnum,
+	JavaClass,
+	JavaClassDesc,
+	JavaProxyClassDesc,
+	JavaException
+} from '@/object-input-stream';
+import type ClassSchema from '@/types/class-schema';
+
+export default class SchemaRegistry {
+	private schemas = new Map<string, ClassSchema>();
+
+	// * Registers every class description reachable from the value, such as the elements
+	// * returned by "ObjectInputStream.readAll()"
+	public add(value: unknown): this {
+		for (const classDesc of collectClassDescs(value)) {
+			this.addClassDesc(classDesc);
+		}
+
+		return this;
+	}
+
+	// * Proxy and array classes have no fields, and are not registered
+	public addClassDesc(classDesc: JavaClassDesc): this {
+		const className = classDesc.className.value;
+
+		if (classDesc instanceof JavaProxyClassDesc || className.startsWith('[')) {
+			return this;
+		}
+
+		const fields = classDesc.info.fields.map(field => ({
+			name: field.name,
+			signature: field.className1?.value ?? field.typeCode,
+			optional: false
+		}));
+
+		const schema = this.schemas.get(className);
+
+		if (!schema) {
+			this.schemas.set(className, {
+				className,
+				serialVersionUIDs: [classDesc.serialVersionUID],
+				flags: classDesc.info.flags,
+				superClass: classDesc.info.superClass?.className.value ?? null,
+				fields
+			});
+
+			return this;
+		}
+
+		if (!schema.serialVersionUIDs.includes(classDesc.serialVersionUID)) {
+			schema.serialVersionUIDs.push(classDesc.serialVersionUID);
+		}
+
+		for (const field of schema.fields) {
+			const match = fields.find(({ name }) => name === field.name);
+
+			if (!match) {
+				field.optional = true;
+			} else if (match.signature !== field.signature) {
+				// * The field changed type between versions, so it could be either
+				field.signature = 'Ljava/lang/Object;';
+			}
+		}
+
+		for (const field of fields) {
+			if (!schema.fields.some(({ name }) => name === field.name)) {
+				schema.fields.push({ ...field, optional: true });
+			}
+		}
+
+		return this;
+	}
+
+	public get(className: string): ClassSchema | undefined {
+		return this.schemas.get(className);
+	}
+
+	public has(className: string): boolean {
+		return this.schemas.has(className);
+	}
+
+	// * Schemas in the order their classes were first seen
+	public classes(): ClassSchema[] {
+		return Array.from(this.schemas.values());
+	}
+
+	// * Fields of the class and all of its super-classes, from the top-most super-class down.
+	// * If a subclass has a field with the same name as a super-class, the subclass wins
+	public flattenedFields(className: string): ClassSchema['fields'] {
+		const fields = new Map<string, ClassSchema['fields'][number]>();
+		const hierarchy: ClassSchema[] = [];
+		const seen = new Set<string>();
+
+		for (let schema = this.schemas.get(className); schema && !seen.has(schema.className); schema = schema.superClass !== null ? this.schemas.get(schema.superClass) : undefined) {
+			seen.add(schema.className);
+			hierarchy.unshift(schema);
+		}
+
+		for (const schema of hierarchy) {
+			for (const field of schema.fields) {
+				fields.delete(field.name);
+				fields.set(field.name, field);
+			}
+		}
+
+		return Array.from(fields.values());
+	}
+}
+
+// * Every class description reachable from the value, in the order they are first found
+export function collectClassDescs(value: unknown): JavaClassDesc[] {
+	const classDescs: JavaClassDesc[] = [];
+	const seen = new Set<object>();
+	const stack: unknown[] = [value];
+
+	while (stack.length !== 0) {
+		const value = stack.pop();
+
+		if (value === null || typeof value !== 'object' || seen.has(value)) {
+			continue;
+		}
+
+		seen.add(value);
+
+		// * Pushed in reverse, so they are visited in order
+		const children: unknown[] = [];
+
+		if (Array.isArray(value)) {
+			pushAll(children, value);
+		} else if (value instanceof JavaClassDesc) {
+			classDescs.push(value);
+			pushAll(children, value.info.annotation);
+			children.push(value.info.superClass);
+		} else if (value instanceof JavaObject) {
+			children.push(value.classDesc);
+
+			for (const classData of value.classData.values()) {
+				pushAll(children, Object.values(classData.values));
+				pushAll(children, classData.annotation);
+			}
+		} else if (value instanceof JavaArray) {
+			children.push(value.classDesc);
+
+			if (Array.isArray(value.values)) {
+				pushAll(children, value.values);
+			}
+		} else if (value instanceof JavaEnum) {
+			children.push(value.classDesc);
+		} else if (value instanceof JavaClass) {
+			children.push(value.description);
+		} else if (value instanceof JavaException) {
+			children.push(value.exception);
+		}
+
+		for (let i = children.length - 1; i >= 0; i--) {
+			stack.push(children[i]);
+		}
+	}
+
+	return classDescs;
+}
+
+// * Spreading very large arrays into push() exceeds the maximum number of arguments
+function pushAll(stack: unknown[], values: readonly unknown[]): void {
+	for (const value of values) {
+		stack.push(value);
+	}
+}
@@ -0,0 +1,404 @@
+// * Converts parsed objects into plain JavaScript values, which are safe to pass to JSON.stringify
+// *
+// *   - JavaObject becomes an object of its field values, flattened across the class hierarchy.
+// *     If a subclass has a field with the same name as a super-class, the subclass wins
+// *   - JavaString becomes a string, JavaEnum becomes the name of its constant and JavaClass
+// *     becomes the name of the class
+// *   - JavaArray becomes an array. byte[] becomes a base64 string like any other Uint8Array, and
+// *     char[] read as a string stays a string
+// *   - bigint (long fields) becomes a string, since JSON has no 64 bit integers
+// *   - Uint8Array (including Buffer), BlockData and ExternalData become base64 strings
+// *   - JavaException becomes "{ "$exception": object }" and JavaReset becomes "{ "$reset": true }"
+// *   - Objects with a decoder, such as java.util.HashMap, are decoded first. Map becomes an
+// *     object if all of its keys are strings, and an array of [key, value] pairs otherwise.
+// *     Set becomes an array, Date becomes an ISO string and URL becomes its href
+// *
+// * Objects and arrays which appear more than once in the graph are given a "$id" the first
+// * time they are converted, and every later occurrence is replaced with "{ "$ref": id }".
+// * This also breaks cycles. Arrays which need an id are wrapped as "{ "$id": id, "$values": [] }"
+
+import {
+	JavaObject,
+	JavaString,
+	JavaArray,
+	JavaEnum,
+	JavaClass,
+	JavaClassDesc,
+	JavaException,
+	JavaReset,
+	BlockData,
+	ExternalData
+} from '@/object-input-stream';
+import { findDecoder } from '@/decoders';
+import { toBase64 } from '@/bytes';
+import type ToPlainOptions from '@/types/to-plain-options';
+import type { PlainConverter } from '@/types/to-plain-options';
+import type Decoder from '@/types/decoder';
+
+export default function toPlain(value: unknown, options: ToPlainOptions = {}): unknown {
+	return new PlainConverterState(value, options).convert(value);
+}
+
+class PlainConverterState {
+	private options: ToPlainOptions;
+	private shared = new Set<JavaObject | JavaArray>(); // * Values reachable more than once, which need a "$id"
+	private ids = new Map<JavaObject | JavaArray, number>();
+	private converted = new Map<JavaObject, unknown>(); // * Results of custom converters
+	private converting = new Set<JavaObject>(); // * Objects currently inside of a custom converter
+	private decoded = new Map<JavaObject, unknown>(); // * Decoded objects which became primitive values
+	private decodingScalars = new Set<JavaObject>(); // * Objects currently inside of "decodeScalar"
+	private nextId = 1;
+
+	constructor(root: unknown, options: ToPlainOptions) {
+		this.options = options;
+
+		this.findShared(root);
+	}
+
+	public convert(value: unknown): unknown {
+		if (value === null || value === undefined) {
+			return null;
+		}
+
+		if (typeof value === 'bigint') {
+			return value.toString();
+		}
+
+		if (value instanceof Uint8Array) {
+			return toBase64(value);
+		}
+
+		if (value instanceof BlockData || value instanceof ExternalData) {
+			return toBase64(value.data);
+		}
+
+		if (value instanceof JavaString) {
+			return value.value;
+		}
+
+		if (value instanceof JavaEnum) {
+			return value.constant.value;
+		}
+
+		if (value instanceof JavaClass) {
+			return value.description?.className.value ?? null;
+		}
+
+		if (value instanceof JavaClassDesc) {
+			return value.className.value;
+		}
+
+		if (value instanceof JavaException) {
+			return {
+				$exception: this.convert(value.exception)
+			};
+		}
+
+		if (value instanceof JavaReset) {
+			return {
+				$reset: true
+			};
+		}
+
+		if (value instanceof JavaArray) {
+			return this.convertArray(value);
+		}
+
+		if (value instanceof JavaObject) {
+			return this.convertObject(value);
+		}
+
+		if (Array.isArray(value) || value instanceof Set) {
+			return Array.from(value, element => this.convert(element));
+		}
+
+		if (value instanceof Map) {
+			return this.convertMap(value);
+		}
+
+		if (value instanceof Date) {
+			return isNaN(value.getTime()) ? null : value.toISOString();
+		}
+
+		if (value instanceof URL) {
+			return value.href;
+		}
+
+		return value;
+	}
+
+	private convertMap(map: Map<unknown, unknown>): unknown {
+		const entries = Array.from(map, ([key, value]) => [this.convert(key), this.convert(value)]);
+
+		if (entries.every(([key]) => typeof key === 'string')) {
+			return Object.fromEntries(entries);
+		}
+
+		return entries;
+	}
+
+	private convertArray(array: JavaArray): unknown {
+		const id = this.ids.get(array);
+
+		if (id !== undefined) {
+			return { $ref: id };
+		}
+
+		if (!this.shared.has(array)) {
+			return this.convertArrayValues(array);
+		}
+
+		// * Assign the id before converting the values so cycles back to this array resolve
+		const $id = this.newId(array);
+
+		return {
+			$id,
+			$values: this.convertArrayValues(array)
+		};
+	}
+
+	private convertArrayValues(array: JavaArray): unknown {
+		if (array.values instanceof Uint8Array || typeof array.values === 'string') {
+			return this.convert(array.values);
+		}
+
+		return Array.from(array.values as ArrayLike<unknown>, value => this.convert(value));
+	}
+
+	private convertObject(object: JavaObject): unknown {
+		const converter = this.findConverter(object);
+
+		if (converter) {
+			return this.convertWithConverter(object, converter);
+		}
+
+		if (this.decoded.has(object)) {
+			return this.decoded.get(object);
+		}
+
+		const id = this.ids.get(object);
+
+		if (id !== undefined) {
+			return { $ref: id };
+		}
+
+		const decoder = findDecoder(object, this.options.decoders);
+
+		if (decoder) {
+			const decoded = this.convertDecoded(object, decoder);
+
+			if (decoded !== undefined) {
+				return decoded;
+			}
+		}
+
+		const plain: Record<string, unknown> = {};
+
+		// * Assign the id before converting the fields so cycles back to this object resolve
+		if (this.shared.has(object)) {
+			plain.$id = this.newId(object);
+		}
+
+		if (this.options.includeClassNames ?? true) {
+			plain.$class = object.classDesc?.className.value ?? null;
+		}
+
+		const hierarchy = object.hierarchy();
+		const annotations: Record<string, unknown[]> = {};
+		let hasAnnotations = false;
+
+		// * Iterate from the top-most super-class down, so subclass fields overwrite super-class fields
+		for (let i = hierarchy.length - 1; i >= 0; i--) {
+			const classData = object.classData.get(hierarchy[i]);
+
+			if (!classData) {
+				continue;
+			}
+
+			for (const [name, value] of Object.entries(classData.values)) {
+				plain[name] = this.convert(value);
+			}
+
+			if (classData.annotation.length !== 0) {
+				annotations[hierarchy[i].className.value] = classData.annotation.map(value => this.convert(value));
+				hasAnnotations = true;
+			}
+		}
+
+		if (hasAnnotations && (this.options.includeAnnotations ?? true)) {
+			plain.$annotations = annotations;
+		}
+
+		return plain;
+	}
+
+	// * Decoded collections are given a "$id" the same way objects and arrays are, since they
+	// * can contain themselves. Returns undefined if the decoder could not decode the object
+	private convertDecoded(object: JavaObject, decoder: Decoder): unknown {
+		// * Assign the id before decoding so cycles back to this object resolve
+		const id = this.shared.has(object) ? this.newId(object) : undefined;
+		const decoded = decoder(object, {
+			decode: value => this.decodeScalar(value)
+		});
+
+		if (decoded === undefined) {
+			this.ids.delete(object);
+			return undefined;
+		}
+
+		const plain = this.convert(decoded);
+
+		if (id === undefined) {
+			return plain;
+		}
+
+		if (Array.isArray(plain)) {
+			return { $id: id, $values: plain };
+		}
+
+		if (plain !== null && typeof plain === 'object') {
+			return { $id: id, ...plain };
+		}
+
+		// * Primitive values cannot be referenced, so they are repeated instead
+		this.ids.delete(object);
+		this.decoded.set(object, plain);
+
+		return plain;
+	}
+
+	// * Nested values are only decoded by decoders if they decode to scalar values, such as
+	// * the java.math.BigInteger inside of a java.math.BigDecimal. Collections are left for
+	// * "convert", so that they go through reference tracking
+	private decodeScalar(value: unknown): unknown {
+		if (value instanceof JavaString) {
+			return value.value;
+		}
+
+		if (value instanceof JavaEnum) {
+			return value.constant.value;
+		}
+
+		// * Collections which contain themselves are left for "convert" to resolve
+		if (!(value instanceof JavaObject) || this.findConverter(value) || this.decodingScalars.has(value)) {
+			return value;
+		}
+
+		const decoder = findDecoder(value, this.options.decoders);
+
+		this.decodingScalars.add(value);
+
+		const decoded = decoder?.(value, {
+			decode: value => this.decodeScalar(value)
+		});
+
+		this.decodingScalars.delete(value);
+
+		if (decoded === undefined || Array.isArray(decoded) || decoded instanceof Map || decoded instanceof Set) {
+			return value;
+		}
+
+		return decoded;
+	}
+
+	// * Custom converters produce arbitrary values which cannot carry a "$id", so shared
+	// * objects reuse the first result instead of being replaced with "$ref" markers
+	private convertWithConverter(object: JavaObject, converter: PlainConverter): unknown {
+		if (this.converted.has(object)) {
+			return this.converted.get(object);
+		}
+
+		if (this.converting.has(object)) {
+			throw new Error(`Cannot convert ${object.classDesc?.className.value}. Object references itself inside of its own converter`);
+		}
+
+		this.converting.add(object);
+
+		const plain = converter(object, {
+			toPlain: value => this.convert(value)
+		});
+
+		this.converting.delete(object);
+		this.converted.set(object, plain);
+
+		return plain;
+	}
+
+	// * Converters registered for a super-class also apply to its subclasses. The most
+	// * specific converter wins
+	private findConverter(object: JavaObject): PlainConverter | undefined {
+		if (!this.options.converters) {
+			return undefined;
+		}
+
+		for (const classDesc of object.hierarchy()) {
+			const converter = this.options.converters.get(classDesc.className.value, classDesc.serialVersionUID);
+
+			if (converter) {
+				return converter;
+			}
+		}
+
+		return undefined;
+	}
+
+	private newId(value: JavaObject | JavaArray): number {
+		const id = this.nextId++;
+
+		this.ids.set(value, id);
+
+		return id;
+	}
+
+	// * Walks the whole graph once, recording every object and array which is reachable
+	// * more than once. Uses an explicit stack so deep graphs do not overflow the call stack
+	private findShared(root: unknown): void {
+		const seen = new Set<JavaObject | JavaArray>();
+		const stack: unknown[] = [root];
+
+		while (stack.length !== 0) {
+			const value = stack.pop();
+
+			if (Array.isArray(value)) {
+				pushAll(stack, value);
+				continue;
+			}
+
+			if (value instanceof JavaException) {
+				stack.push(value.exception);
+				continue;
+			}
+
+			if (!(value instanceof JavaObject) && !(value instanceof JavaArray)) {
+				continue;
+			}
+
+			if (seen.has(value)) {
+				this.shared.add(value);
+				continue;
+			}
+
+			seen.add(value);
+
+			if (value instanceof JavaArray) {
+				if (Array.isArray(value.values)) {
+					pushAll(stack, value.values);
+				}
+
+				continue;
+			}
+
+			for (const classData of value.classData.values()) {
+				pushAll(stack, Object.values(classData.values));
+				pushAll(stack, classData.annotation);
+			}
+		}
+	}
+}
+
+// * Spreading very large arrays into push() exceeds the maximum number of arguments
+function pushAll(stack: unknown[], values: readonly unknown[]): void {
+	for (const value of values) {
+		stack.push(value);
+	}
+}
@@ -0,0 +1,173 @@
+// * Generates TypeScript interfaces describing the fields of the classes in a SchemaRegistry.
+// *
+// * Every class becomes an interface named after the class, with the fields of all of its
+// * super-classes flattened into it, the same way "toPlain" flattens objects. Interfaces
+// * match the values returned by "JavaObject.get" and the "values" passed to class handlers,
+// * so primitive fields map to number, bigint, string and boolean, and object fields map to
+// * the model classes:
+// *
+// *   B, S, I, F, D         number
+// *   J                     bigint
+// *   C                     string
+// *   Z                     boolean
+// *   [...                  JavaArray | null
+// *   java.lang.String      JavaString | null
+// *   java.lang.Class       JavaClass | null
+// *   Enum classes          JavaEnum | null
+// *   java.lang.Object      unknown, since any object can be stored
+// *   Other classes         JavaObject | null
+
+import type SchemaRegistry from '@/schema-registry';
+import type ClassSchema from '@/types/class-schema';
+import type TypeGeneratorOptions from '@/types/type-generator-options';
+
+const SC_ENUM = 0x10;
+
+const PRIMITIVE_TYPES: Record<string, [string, string]> = {
+	B: ['number', 'byte'],
+	C: ['string', 'char'],
+	D: ['number', 'double'],
+	F: ['number', 'float'],
+	I: ['number', 'int'],
+	J: ['bigint', 'long'],
+	S: ['number', 'short'],
+	Z: ['boolean', 'boolean']
+};
+
+// * Interfaces and abstract classes which fields are commonly declared as. These can hold
+// * strings, arrays and enums as well as objects, so nothing more specific can be known
+const UNKNOWN_CLASSES = new Set([
+	'java.lang.Object',
+	'java.io.Serializable',
+	'java.lang.Comparable',
+	'java.lang.CharSequence',
+	'java.lang.Number'
+]);
+
+export function generateTypeScript(registry: SchemaRegistry, options: TypeGeneratorOptions = {}): string {
+	const schemas = registry.classes();
+	const names = interfaceNames(schemas);
+	const imports = new Set<string>();
+	const interfaces: string[] = [];
+
+	for (const schema of schemas) {
+		const lines = [`// * ${schema.className}, serialVersionUID ${schema.serialVersionUIDs.join(', ')}`];
+
+		lines.push(`export interface ${names.get(schema.className)} {`);
+
+		for (const field of registry.flattenedFields(schema.className)) {
+			const [type, javaType] = fieldType(field.signature, registry);
+			const modelType = type.split(' ')[0];
+
+			if (modelType.startsWith('Java')) {
+				imports.add(modelType);
+			}
+
+			lines.push(`\t${propertyName(field.name)}${field.optional ? '?' : ''}: ${type}; // * ${javaType}`);
+		}
+
+		lines.push('}');
+
+		// * Classes without fields, such as enums, are written on one line
+		interfaces.push(lines.length === 3 ? `${lines[0]}\n${lines[1]}}` : lines.join('\n'));
+	}
+
+	const header: string[] = [];
+
+	if (imports.size !== 0) {
+		header.push(`import type { ${Array.from(imports).sort().join(', ')} } from '${options.importFrom ?? '@pretendonetwork/java.io'}';`, '');
+	}
+
+	return header.concat(interfaces.join('\n\n')).join('\n') + '\n';
+}
+
+// * Returns the TypeScript type and the Java type name of a JVM type signature
+function fieldType(signature: string, registry: SchemaRegistry): [string, string] {
+	if (signature in PRIMITIVE_TYPES) {
+		return PRIMITIVE_TYPES[signature];
+	}
+
+	const javaType = javaTypeName(signature);
+
+	if (signature.startsWith('[')) {
+		return ['JavaArray | null', javaType];
+	}
+
+	if (javaType === 'java.lang.String') {
+		return ['JavaString | null', javaType];
+	}
+
+	if (javaType === 'java.lang.Class') {
+		return ['JavaClass | null', javaType];
+	}
+
+	if (UNKNOWN_CLASSES.has(javaType)) {
+		return ['unknown', javaType];
+	}
+
+	const schema = registry.get(javaType);
+
+	if (schema && (schema.flags & SC_ENUM) !== 0) {
+		return ['JavaEnum | null', javaType];
+	}
+
+	return ['JavaObject | null', javaType];
+}
+
+// * Converts a JVM type signature such as "[Ljava/lang/String;" to "java.lang.String[]"
+export function javaTypeName(signature: string): string {
+	let dimensions = 0;
+
+	while (signature[dimensions] === '[') {
+		dimensions++;
+	}
+
+	const component = signature.slice(dimensions);
+	let name: string;
+
+	if (component.startsWith('L') && component.endsWith(';')) {
+		name = component.slice(1, -1).replace(/\//g, '.');
+	} else if (component in PRIMITIVE_TYPES) {
+		name = PRIMITIVE_TYPES[component][1];
+	} else {
+		name = component;
+	}
+
+	return name + '[]'.repeat(dimensions);
+}
+
+// * Interfaces are named after the simple name of their class, such as "Map_Entry" for
+// * "java.util.Map$Entry". Classes whose simple names clash use their full names instead,
+// * such as "com_example_Node"
+function interfaceNames(schemas: ClassSchema[]): Map<string, string> {
+	const counts = new Map<string, number>();
+	const names = new Map<string, string>();
+
+	for (const { className } of schemas) {
+		const name = simpleName(className);
+
+		counts.set(name, (counts.get(name) ?? 0) + 1);
+	}
+
+	for (const { className } of schemas) {
+		const name = simpleName(className);
+
+		names.set(className, counts.get(name) === 1 ? name : identifier(className));
+	}
+
+	return names;
+}
+
+function simpleName(className: string): string {
+	return identifier(className.slice(className.lastIndexOf('.') + 1));
+}
+
+function identifier(name: string): string {
+	const cleaned = name.replace(/[^A-Za-z0-9_]/g, '_');
+
+	return /^[0-9]/.test(cleaned) ? `_${cleaned}` : cleaned;
+}
+
+function propertyName(name: string): string {
+	return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readCharlesSession, JavaObject } from '@/index';
+import { roundTrip } from './helpers/java';
+import { charlesSession, START } from './fixtures/charles';
+import type { CharlesSession, CharlesTransaction } from '@/index';
+
+function readSession(): CharlesSession {
+	const [ session ] = roundTrip([ charlesSession() ]);
+
+	assert.ok(session instanceof JavaObject);
+
+	return readCharlesSession(session);
+}
+
+function find(session: CharlesSession, path: string): CharlesTransaction {
+	const transaction = session.transactions.find(transaction => transaction.path === path);
+
+	assert.ok(transaction, `No transaction for ${path}`);
+
+	return transaction;
+}
+
+test('sorts transactions by start time and reconstructs paths', () => {
+	const session = readSession();
+
+	assert.deepEqual(session.hosts.map(host => host.name), ['account.nintendo.net']);
+	assert.deepEqual(session.transactions.map(transaction => transaction.path), [
+		'/v1/api/admin/time',
+		'/v1/api/people/@me',
+		'/v1/api/people/@me/devices',
+		'/v1/api/notifications'
+	]);
+});
+
+test('decodes the request and response of a transaction', () => {
+	const transaction = find(readSession(), '/v1/api/people/@me/devices');
+
+	assert.equal(transaction.method, 'POST');
+	assert.equal(transaction.url, 'https://account.nintendo.net:8443/v1/api/people/@me/devices?lang=en&x=a%20b');
+	assert.equal(transaction.protocolVersion, 'HTTP/1.1');
+	assert.equal(transaction.port, 8443);
+	assert.equal(transaction.status, 201); // * No status field, so read from the status line
+	assert.equal(transaction.statusText, 'Created');
+	assert.deepEqual(transaction.requestHeaders, [
+		{ name: 'Host', value: 'account.nintendo.net:8443' },
+		{ name: 'Content-Type', value: 'application/octet-stream' },
+		{ name: 'Cookie', value: 'a=1; b=2' }
+	]);
+	assert.deepEqual(transaction.responseHeaders?.map(header => header.name), ['Content-Type', 'Set-Cookie']);
+	assert.deepEqual(transaction.requestBody, Uint8Array.of(0x00, 0xFF, 0x10, 0x80));
+	assert.equal(new TextDecoder().decode(transaction.responseBody!), '{"ok":true}');
+	assert.equal(transaction.remoteAddress, '10.0.0.1');
+	assert.equal(transaction.clientAddress, '192.168.1.20');
+	assert.equal(transaction.exception, null);
+	assert.deepEqual(transaction.webSocketMessages, []);
+	assert.deepEqual(transaction.missing, []);
+});
+
+test('decodes every timing', () => {
+	const { timings } = find(readSession(), '/v1/api/people/@me/devices');
+
+	assert.deepEqual(timings, {
+		start: new Date(START + 1000),
+		requestBegin: new Date(START + 1040),
+		requestComplete: new Date(START + 1050),
+		responseBegin: new Date(START + 1150),
+		end: new Date(START + 1200),
+		dns: 3,
+		connect: 12,
+		ssl: 25
+	});
+});
+
+test('decodes WebSocket frames in time order', () => {
+	const transaction = find(readSession(), '/v1/api/notifications');
+
+	assert.equal(transaction.status, 101);
+	assert.deepEqual(transaction.webSocketMessages, [
+		{ type: 'send', opcode: 1, time: new Date(START + 2100), data: new TextEncoder().encode('hello') },
+		{ type: 'receive', opcode: 2, time: new Date(START + 2200), data: Uint8Array.of(0x01, 0x02, 0xFE) }
+	]);
+});
+
+test('keeps values which are null in the dump apart from missing ones', () => {
+	const failed = find(readSession(), '/v1/api/people/@me');
+
+	assert.equal(failed.exception, 'java.net.ConnectException: Connection refused');
+	assert.equal(failed.failed, true);
+	assert.equal(failed.responseHeaders, null);
+	assert.equal(failed.responseBody, null);
+	assert.equal(failed.statusText, null);
+	assert.deepEqual(failed.missing, ['status']); // * Neither a status field nor a status line
+});
+
+test('reports fields which are not stored as missing', () => {
+	const legacy = find(readSession(), '/v1/api/admin/time');
+
+	assert.equal(legacy.url, 'https://account.nintendo.net/v1/api/admin/time');
+	assert.equal(legacy.method, null);
+	assert.equal(legacy.requestHeaders, null);
+	assert.equal(legacy.webSocketMessages, null);
+	assert.deepEqual(legacy.missing.sort(), [
+		'clientAddress',
+		'exception',
+		'method',
+		'port',
+		'protocolVersion',
+		'remoteAddress',
+		'requestBody',
+		'requestHeaders',
+		'responseBody',
+		'responseHeaders',
+		'status',
+		'statusText',
+		'timings.connect',
+		'timings.dns',
+		'timings.end',
+		'timings.requestBegin',
+		'timings.requestComplete',
+		'timings.responseBegin',
+		'timings.ssl',
+		'webSocketMessages'
+	]);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectInputStream, BufferInputStream, JavaObject, ExternalData, JavaSerializationError } from '@/index';
+
+const HEADER = [0xAC, 0xED, 0x00, 0x05];
+
+// * TC_OBJECT with a new class description without fields or a super-class
+function newObject(className: string, flags: number): number[] {
+	return [
+		0x73, 0x72,
+		0x00, className.length, ...Buffer.from(className),
+		0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01, // * serialVersionUID
+		flags,
+		0x00, 0x00, // * Field count
+		0x78, // * classAnnotation
+		0x70 // * superClassDesc
+	];
+}
+
+const SC_EXTERNALIZABLE = 0x04;
+const SC_SERIALIZABLE_WRITE_METHOD = 0x03;
+
+function read(bytes: number[], lenient = false): ObjectInputStream {
+	return new ObjectInputStream(new BufferInputStream(Buffer.from([...HEADER, ...bytes])), { lenient });
+}
+
+function externalData(object: JavaObject): Uint8Array {
+	const [ contents ] = object.getClassData('Ext')!.annotation;
+
+	assert.ok(contents instanceof ExternalData);
+
+	return contents.data;
+}
+
+test('captures PROTOCOL_VERSION_1 contents of the last top-level object', () => {
+	const [ object ] = read([...newObject('Ext', SC_EXTERNALIZABLE), 0x01, 0x02, 0x03, 0x04]).readAll();
+
+	assert.deepEqual(externalData(object), Uint8Array.of(0x01, 0x02, 0x03, 0x04));
+});
+
+test('captures PROTOCOL_VERSION_1 contents up to the end of an annotation', () => {
+	const [ outer ] = read([
+		...newObject('Outer', SC_SERIALIZABLE_WRITE_METHOD),
+		...newObject('Ext', SC_EXTERNALIZABLE), 0x01, 0x02, 0x03,
+		0x78 // * End of the objectAnnotation of Outer
+	]).readAll();
+
+	const [ inner ] = outer.getClassData('Outer')!.annotation;
+
+	assert.ok(inner instanceof JavaObject);
+	assert.deepEqual(externalData(inner), Uint8Array.of(0x01, 0x02, 0x03));
+});
+
+test('throws when PROTOCOL_VERSION_1 contents are followed by more elements', () => {
+	const stream = read([...newObject('Ext', SC_EXTERNALIZABLE), 0x01, 0x02, ...newObject('Next', SC_SERIALIZABLE_WRITE_METHOD), 0x78]);
+
+	assert.throws(() => stream.readAll(), JavaSerializationError);
+});
+
+test('skips to the next top-level object in lenient mode', () => {
+	const stream = read([...newObject('Ext', SC_EXTERNALIZABLE), 0x01, 0x02, ...newObject('Next', SC_SERIALIZABLE_WRITE_METHOD), 0x78], true);
+	const [ partial, next ] = stream.readAll();
+
+	assert.equal(partial.classDesc?.className.value, 'Ext');
+	assert.equal(next.classDesc?.className.value, 'Next');
+	assert.equal(stream.diagnostics.length, 1);
+	assert.equal(stream.diagnostics[0].skipped, 0);
+});
@@ -0,0 +1,171 @@
+// * A synthetic Charles session, built from the Charles model classes by hand. Covers a
+// * complete HTTP transaction, a WebSocket connection, a failed request and a transaction
+// * written by a version of Charles which stores fewer fields
+
+import { classDesc, object, string, byteArray, arrayList, date, SC_SERIALIZABLE, SC_WRITE_METHOD } from '../helpers/java';
+import type { JavaObject, JavaValue } from '@/index';
+
+const MODEL_NODE = classDesc('com.xk72.charles.model.ModelNode', [['L', 'children', 'Ljava/util/List;']]);
+const SESSION = classDesc('com.xk72.charles.model.Session', [], MODEL_NODE);
+const PATH = classDesc('com.xk72.charles.model.Path', [['L', 'value', 'Ljava/lang/String;']], MODEL_NODE);
+const HOST = classDesc('com.xk72.charles.model.Host', [['L', 'host', 'Ljava/lang/String;']], PATH);
+const FIELDS = classDesc('com.xk72.proxy.Fields', [['L', 'firstLine', 'Ljava/lang/String;'], ['L', 'fields', 'Ljava/util/List;']]);
+const FIELD = classDesc('com.xk72.proxy.Field', [['L', 'name', 'Ljava/lang/String;'], ['L', 'value', 'Ljava/lang/String;']]);
+const WEB_SOCKET_MESSAGE = classDesc('com.xk72.charles.model.WebSocketMessage', [['Z', 'outgoing'], ['I', 'opcode'], ['L', 'time', 'Ljava/util/Date;'], ['[', 'data', '[B']]);
+const THROWABLE = classDesc('java.lang.Throwable', [['L', 'detailMessage', 'Ljava/lang/String;']]);
+const CONNECT_EXCEPTION = classDesc('java.net.ConnectException', [], THROWABLE);
+const INET_ADDRESS = classDesc('java.net.InetAddress', [['I', 'address'], ['I', 'family'], ['L', 'hostName', 'Ljava/lang/String;']], null, SC_SERIALIZABLE | SC_WRITE_METHOD);
+
+const TRANSACTION = classDesc('com.xk72.charles.model.Transaction', [
+	['I', 'port'],
+	['J', 'dnsDuration'],
+	['J', 'connectDuration'],
+	['J', 'sslDuration'],
+	['L', 'method', 'Ljava/lang/String;'],
+	['L', 'protocol', 'Ljava/lang/String;'],
+	['L', 'protocolVersion', 'Ljava/lang/String;'],
+	['L', 'host', 'Ljava/lang/String;'],
+	['L', 'file', 'Ljava/lang/String;'],
+	['L', 'requestHeader', 'Lcom/xk72/proxy/Fields;'],
+	['L', 'responseHeader', 'Lcom/xk72/proxy/Fields;'],
+	['[', 'requestData', '[B'],
+	['[', 'responseData', '[B'],
+	['L', 'startTime', 'Ljava/util/Date;'],
+	['L', 'requestBeginTime', 'Ljava/util/Date;'],
+	['L', 'requestCompleteTime', 'Ljava/util/Date;'],
+	['L', 'responseBeginTime', 'Ljava/util/Date;'],
+	['L', 'endTime', 'Ljava/util/Date;'],
+	['L', 'remoteAddress', 'Ljava/net/InetAddress;'],
+	['L', 'clientAddress', 'Ljava/lang/String;'],
+	['L', 'exception', 'Ljava/lang/Throwable;'],
+	['L', 'webSocketMessages', 'Ljava/util/List;']
+], MODEL_NODE);
+
+// * Older versions of Charles only store the URL and the start time
+const LEGACY_TRANSACTION = classDesc('com.xk72.charles.model.Transaction', [
+	['L', 'protocol', 'Ljava/lang/String;'],
+	['L', 'host', 'Ljava/lang/String;'],
+	['L', 'file', 'Ljava/lang/String;'],
+	['L', 'startTime', 'Ljava/util/Date;']
+], MODEL_NODE, SC_SERIALIZABLE, 2n);
+
+export const START = Date.UTC(2024, 0, 1);
+
+function headers(firstLine: string, fields: [ string, string ][]): JavaObject {
+	return object(FIELDS, {
+		'com.xk72.proxy.Fields': {
+			values: {
+				firstLine: string(firstLine),
+				fields: arrayList(fields.map(([ name, value ]) => object(FIELD, {
+					'com.xk72.proxy.Field': { values: { name: string(name), value: string(value) } }
+				})))
+			}
+		}
+	});
+}
+
+function webSocketMessage(outgoing: boolean, opcode: number, time: number, data: Uint8Array): JavaObject {
+	return object(WEB_SOCKET_MESSAGE, {
+		'com.xk72.charles.model.WebSocketMessage': { values: { outgoing, opcode, time: date(time), data: byteArray(data) } }
+	});
+}
+
+function node(classDesc: typeof MODEL_NODE, levels: Record<string, Record<string, JavaValue>>, children: JavaObject[] | null): JavaObject {
+	const spec: Record<string, { values: Record<string, JavaValue>; }> = {
+		'com.xk72.charles.model.ModelNode': { values: { children: children && arrayList(children) } }
+	};
+
+	for (const [ className, values ] of Object.entries(levels)) {
+		spec[className] = { values };
+	}
+
+	return object(classDesc, spec);
+}
+
+function transaction(start: number, values: Record<string, JavaValue>): JavaObject {
+	return node(TRANSACTION, {
+		'com.xk72.charles.model.Transaction': {
+			port: 8443,
+			dnsDuration: 0n,
+			connectDuration: 0n,
+			sslDuration: 0n,
+			method: null,
+			protocol: string('https'),
+			protocolVersion: string('HTTP/1.1'),
+			host: string('account.nintendo.net'),
+			file: null,
+			requestHeader: null,
+			responseHeader: null,
+			requestData: null,
+			responseData: null,
+			startTime: date(start),
+			requestBeginTime: null,
+			requestCompleteTime: null,
+			responseBeginTime: null,
+			endTime: null,
+			remoteAddress: null,
+			clientAddress: null,
+			exception: null,
+			webSocketMessages: null,
+			...values
+		}
+	}, null);
+}
+
+export function charlesSession(): JavaObject {
+	const post = transaction(START + 1000, {
+		dnsDuration: 3n,
+		connectDuration: 12n,
+		sslDuration: 25n,
+		method: string('POST'),
+		file: string('/v1/api/people/@me/devices?lang=en&x=a%20b'),
+		requestHeader: headers('POST /v1/api/people/@me/devices?lang=en&x=a%20b HTTP/1.1', [['Host', 'account.nintendo.net:8443'], ['Content-Type', 'application/octet-stream'], ['Cookie', 'a=1; b=2']]),
+		responseHeader: headers('HTTP/1.1 201 Created', [['Content-Type', 'application/json'], ['Set-Cookie', 'session=abc; Path=/; HttpOnly']]),
+		requestData: byteArray(Uint8Array.of(0x00, 0xFF, 0x10, 0x80)),
+		responseData: byteArray(new TextEncoder().encode('{"ok":true}')),
+		requestBeginTime: date(START + 1040),
+		requestCompleteTime: date(START + 1050),
+		responseBeginTime: date(START + 1150),
+		endTime: date(START + 1200),
+		remoteAddress: object(INET_ADDRESS, { 'java.net.InetAddress': { values: { address: 0x0A000001, family: 1, hostName: string('account.nintendo.net') } } }),
+		clientAddress: string('192.168.1.20')
+	});
+
+	const webSocket = transaction(START + 2000, {
+		method: string('GET'),
+		file: string('/v1/api/notifications'),
+		requestHeader: headers('GET /v1/api/notifications HTTP/1.1', [['Upgrade', 'websocket']]),
+		responseHeader: headers('HTTP/1.1 101 Switching Protocols', [['Upgrade', 'websocket']]),
+		endTime: date(START + 9000),
+		webSocketMessages: arrayList([
+			webSocketMessage(false, 2, START + 2200, Uint8Array.of(0x01, 0x02, 0xFE)),
+			webSocketMessage(true, 1, START + 2100, new TextEncoder().encode('hello'))
+		])
+	});
+
+	const failed = transaction(START + 500, {
+		method: string('GET'),
+		exception: object(CONNECT_EXCEPTION, { 'java.lang.Throwable': { values: { detailMessage: string('Connection refused') } } })
+	});
+
+	const legacy = node(LEGACY_TRANSACTION, {
+		'com.xk72.charles.model.Transaction': {
+			protocol: string('https'),
+			host: string('account.nintendo.net'),
+			file: string('/v1/api/admin/time'),
+			startTime: date(START)
+		}
+	}, null);
+
+	const devices = node(PATH, { 'com.xk72.charles.model.Path': { value: string('devices') } }, [ post ]);
+	const me = node(PATH, { 'com.xk72.charles.model.Path': { value: string('@me') } }, [ devices, failed ]);
+	const people = node(PATH, { 'com.xk72.charles.model.Path': { value: string('people') } }, [ me ]);
+	const api = node(PATH, { 'com.xk72.charles.model.Path': { value: string('api') } }, [ people, webSocket, legacy ]);
+	const v1 = node(PATH, { 'com.xk72.charles.model.Path': { value: string('v1') } }, [ api ]);
+	const host = node(HOST, {
+		'com.xk72.charles.model.Host': { host: string('account.nintendo.net') },
+		'com.xk72.charles.model.Path': { value: null }
+	}, [ v1 ]);
+
+	return node(SESSION, {}, [ host ]);
+}
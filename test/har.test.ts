@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readCharlesSession, toHAR, JavaObject } from '@/index';
+import { roundTrip } from './helpers/java';
+import { charlesSession, START } from './fixtures/charles';
+import type { HarEntry } from '@/index';
+
+function entries(): HarEntry[] {
+	const [ session ] = roundTrip([ charlesSession() ]);
+
+	assert.ok(session instanceof JavaObject);
+
+	return toHAR(readCharlesSession(session)).log.entries;
+}
+
+function find(url: string): HarEntry {
+	const entry = entries().find(entry => entry.request.url === url);
+
+	assert.ok(entry, `No entry for ${url}`);
+
+	return entry;
+}
+
+test('exports headers, cookies and the query string', () => {
+	const { request, response } = find('https://account.nintendo.net:8443/v1/api/people/@me/devices?lang=en&x=a%20b');
+
+	assert.equal(request.method, 'POST');
+	assert.equal(request.httpVersion, 'HTTP/1.1');
+	assert.deepEqual(request.headers, [
+		{ name: 'Host', value: 'account.nintendo.net:8443' },
+		{ name: 'Content-Type', value: 'application/octet-stream' },
+		{ name: 'Cookie', value: 'a=1; b=2' }
+	]);
+	assert.deepEqual(request.cookies, [{ name: 'a', value: '1' }, { name: 'b', value: '2' }]);
+	assert.deepEqual(request.queryString, [{ name: 'lang', value: 'en' }, { name: 'x', value: 'a b' }]);
+	assert.equal(response.status, 201);
+	assert.equal(response.statusText, 'Created');
+	assert.deepEqual(response.headers, [
+		{ name: 'Content-Type', value: 'application/json' },
+		{ name: 'Set-Cookie', value: 'session=abc; Path=/; HttpOnly' }
+	]);
+	assert.deepEqual(response.cookies, [{ name: 'session', value: 'abc' }]);
+});
+
+test('exports binary bodies as base64 and textual bodies as text', () => {
+	const { request, response } = find('https://account.nintendo.net:8443/v1/api/people/@me/devices?lang=en&x=a%20b');
+
+	assert.deepEqual(request.postData, {
+		mimeType: 'application/octet-stream',
+		text: Buffer.from([0x00, 0xFF, 0x10, 0x80]).toString('base64'),
+		encoding: 'base64'
+	});
+	assert.equal(request.bodySize, 4);
+	assert.deepEqual(response.content, { size: 11, mimeType: 'application/json', text: '{"ok":true}' });
+});
+
+test('exports timings and the server address', () => {
+	const entry = find('https://account.nintendo.net:8443/v1/api/people/@me/devices?lang=en&x=a%20b');
+
+	assert.equal(entry.startedDateTime, new Date(START + 1000).toISOString());
+	assert.equal(entry.time, 200);
+	assert.deepEqual(entry.timings, { blocked: -1, dns: 3, connect: 12, ssl: 25, send: 10, wait: 100, receive: 50 });
+	assert.equal(entry.serverIPAddress, '10.0.0.1');
+});
+
+test('exports WebSocket frames in _webSocketMessages', () => {
+	const entry = find('https://account.nintendo.net:8443/v1/api/notifications');
+
+	assert.deepEqual(entry._webSocketMessages, [
+		{ type: 'send', time: (START + 2100) / 1000, opcode: 1, data: 'hello' },
+		{ type: 'receive', time: (START + 2200) / 1000, opcode: 2, data: Buffer.from([0x01, 0x02, 0xFE]).toString('base64') }
+	]);
+});
+
+test('does not guess values which are missing', () => {
+	const { request, response } = find('https://account.nintendo.net/v1/api/admin/time');
+
+	assert.equal(request.method, '');
+	assert.deepEqual(request.headers, []);
+	assert.equal(request.bodySize, -1);
+	assert.equal(response.bodySize, -1);
+});
+
+test('exports the exception of failed transactions', () => {
+	const entry = find('https://account.nintendo.net:8443/v1/api/people/@me');
+
+	assert.equal(entry.response._error, 'java.net.ConnectException: Connection refused');
+	assert.equal(entry.response.status, 0);
+	assert.equal(entry._webSocketMessages, undefined);
+});
@@ -0,0 +1,135 @@
+// * Builds object graphs by hand, for tests which need streams written by classes
+// * that are not available here, such as the Charles model
+
+import {
+	ObjectInputStream,
+	ObjectOutputStream,
+	BufferInputStream,
+	BufferOutputStream,
+	JavaObject,
+	JavaString,
+	JavaArray,
+	JavaClassDesc,
+	JavaClassDescInfo,
+	JavaClassDescInfoField,
+	ClassData,
+	BlockData
+} from '@/index';
+import type { JavaValue } from '@/index';
+
+export const SC_WRITE_METHOD = 0x01;
+export const SC_SERIALIZABLE = 0x02;
+
+// * Fields are [typeCode, name] for primitives, and [typeCode, name, className] for objects and arrays
+export type FieldSpec = [ string, string ] | [ string, string, string ];
+
+export interface ClassDataSpec {
+	values?: Record<string, JavaValue>;
+	annotation?: JavaValue[];
+};
+
+export function classDesc(className: string, fields: FieldSpec[] = [], superClass: JavaClassDesc | null = null, flags = SC_SERIALIZABLE, serialVersionUID = 1n): JavaClassDesc {
+	const classDesc = new JavaClassDesc();
+
+	classDesc.className.value = className;
+	classDesc.serialVersionUID = serialVersionUID;
+	classDesc.info = new JavaClassDescInfo();
+	classDesc.info.flags = flags;
+	classDesc.info.superClass = superClass;
+
+	for (const [ typeCode, name, fieldClassName ] of fields) {
+		const field = new JavaClassDescInfoField();
+
+		field.typeCode = typeCode;
+		field.name = name;
+
+		if (fieldClassName !== undefined) {
+			field.className1 = string(fieldClassName);
+		}
+
+		classDesc.info.fields.push(field);
+	}
+
+	return classDesc;
+}
+
+// * Levels not given in "levels" get empty class data
+export function object(classDesc: JavaClassDesc, levels: Record<string, ClassDataSpec>): JavaObject {
+	const object = new JavaObject();
+
+	object.classDesc = classDesc;
+
+	for (let level: JavaClassDesc | null | undefined = classDesc; level; level = level.info.superClass) {
+		const classData = new ClassData();
+		const spec = levels[level.className.value] ?? {};
+
+		classData.values = spec.values ?? {};
+		classData.annotation = spec.annotation ?? [];
+
+		object.classData.set(level, classData);
+	}
+
+	return object;
+}
+
+export function string(value: string): JavaString {
+	const string = new JavaString();
+
+	string.value = value;
+
+	return string;
+}
+
+export function blockData(data: Uint8Array): BlockData {
+	const blockData = new BlockData();
+
+	blockData.data = data;
+
+	return blockData;
+}
+
+const BYTE_ARRAY = classDesc('[B', [], null, SC_SERIALIZABLE, -5984413125824719648n);
+
+export function byteArray(data: Uint8Array): JavaArray {
+	const array = new JavaArray();
+
+	array.classDesc = BYTE_ARRAY;
+	array.values = data;
+
+	return array;
+}
+
+const ARRAY_LIST = classDesc('java.util.ArrayList', [['I', 'size']], null, SC_SERIALIZABLE | SC_WRITE_METHOD, 8683452581122892189n);
+
+// * ArrayList writes its capacity as block data, followed by its elements
+export function arrayList(elements: JavaValue[]): JavaObject {
+	const capacity = new Uint8Array(4);
+
+	new DataView(capacity.buffer).setInt32(0, elements.length);
+
+	return object(ARRAY_LIST, {
+		'java.util.ArrayList': { values: { size: elements.length }, annotation: [ blockData(capacity), ...elements ] }
+	});
+}
+
+const DATE = classDesc('java.util.Date', [], null, SC_SERIALIZABLE | SC_WRITE_METHOD, 7523967970034938905n);
+
+// * Date writes its time in milliseconds as block data
+export function date(time: number): JavaObject {
+	const data = new Uint8Array(8);
+
+	new DataView(data.buffer).setBigInt64(0, BigInt(time));
+
+	return object(DATE, {
+		'java.util.Date': { annotation: [ blockData(data) ] }
+	});
+}
+
+// * Writes the values to a stream and reads them back, so tests run against parsed data
+export function roundTrip(values: JavaValue[]): JavaValue[] {
+	const output = new BufferOutputStream();
+
+	new ObjectOutputStream(output).writeAll(values);
+
+	return new ObjectInputStream(new BufferInputStream(output.toBytes())).readAll<JavaValue>();
+}
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JavaObject, JavaString } from '@/index';
+import { classDesc, object, string } from './helpers/java';
+
+// * In the shape "generateTypeScript" emits. The @ts-expect-error lines below are checked by "npm run typecheck"
+interface Point {
+	x: number;
+	y: number;
+	label: JavaString | null;
+};
+
+const POINT = classDesc('com.example.Point', [['I', 'x'], ['I', 'y'], ['L', 'label', 'Ljava/lang/String;']]);
+
+function point(): JavaObject {
+	return object(POINT, { 'com.example.Point': { values: { x: 1, y: 2, label: string('origin') } } });
+}
+
+test('types fields using the interface of the class', () => {
+	const x: number = point().get<Point, 'x'>('x');
+	const label: JavaString | null = point().get<Point, 'label'>('label');
+
+	assert.equal(x, 1);
+	assert.equal(label?.value, 'origin');
+
+	// @ts-expect-error - "z" is not a field of Point
+	assert.equal(point().get<Point, 'z'>('z'), undefined);
+
+	// @ts-expect-error - "x" is a number, not a string
+	const wrong: string = point().get<Point, 'x'>('x');
+
+	assert.equal(wrong, 1);
+});
+
+test('checks names against the interface when only it is given', () => {
+	const value: number | JavaString | null = point().get<Point>('y');
+
+	assert.equal(value, 2);
+
+	// @ts-expect-error - "z" is not a field of Point
+	point().get<Point>('z');
+});
+
+test('returns unknown without an interface', () => {
+	const value = point().get('x');
+
+	// @ts-expect-error - Unknown values need to be narrowed first
+	value.toFixed();
+
+	assert.equal(value, 1);
+	assert.equal(point().get('missing'), undefined);
+});
@@ -1,7 +1,8 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-	entry: ['src/index.ts'],
+	entry: ['src/index.ts', 'src/browser.ts', 'src/cli.ts'], // * The shebang at the top of cli.ts is kept by esbuild
+	format: ['cjs', 'esm'], // * index.js/browser.js for require(), index.mjs/browser.mjs for import and bundlers
 	sourcemap: true,
 	treeshake: true,
 	clean: true,
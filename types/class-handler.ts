@@ -0,0 +1,15 @@
+import type ObjectInputStream from '@/object-input-stream';
+import type AnnotationCursor from '@/annotation-cursor';
+import type { JavaObject, JavaClassDesc } from '@/object-input-stream';
+import type JavaValue from '@/types/java-value';
+
+export interface ClassHandlerContext {
+	ois: ObjectInputStream;
+	object: JavaObject; // * The generic object, with data for every level of the class hierarchy
+	classDesc: JavaClassDesc; // * Description of the handled class
+};
+
+// * Returns the value to use in place of the generic JavaObject, or undefined to keep the JavaObject
+type ClassHandler<T = unknown> = (values: Record<string, JavaValue>, cursor: AnnotationCursor, context: ClassHandlerContext) => T | undefined;
+
+export default ClassHandler;
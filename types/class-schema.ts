@@ -0,0 +1,14 @@
+export interface FieldSchema {
+	name: string;
+	signature: string; // * JVM type signature, such as "I", "[B" or "Ljava/lang/String;"
+	optional: boolean; // * True if the field is missing from some of the versions of the class seen
+};
+
+// * Every version of a class seen by a SchemaRegistry, merged together
+export default interface ClassSchema {
+	className: string;
+	serialVersionUIDs: bigint[];
+	flags: number; // * Flags of the first version seen
+	superClass: string | null;
+	fields: FieldSchema[];
+};
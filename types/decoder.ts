@@ -0,0 +1,10 @@
+import type { JavaObject } from '@/object-input-stream';
+
+export interface DecoderContext {
+	decode(value: unknown): unknown; // * Decodes a nested value
+};
+
+// * Returns undefined if the object cannot be decoded, in which case the object is left as-is
+type Decoder = (object: JavaObject, context: DecoderContext) => unknown;
+
+export default Decoder;
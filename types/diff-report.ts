@@ -0,0 +1,29 @@
+// * Values are described as short strings, so reports can be passed to JSON.stringify. Such
+// * as "\"text\"" for strings, "5L" for longs, "com.example.Class" for objects, "int[3]" for
+// * arrays and "com.example.Enum.CONSTANT" for enum constants
+export interface ValueChange {
+	type: 'added' | 'removed' | 'changed';
+	path: string; // * Path to the value, in the same format as "query", such as "0/root/children/4/request"
+	before?: string;
+	after?: string;
+};
+
+export interface FieldChange {
+	type: 'added' | 'removed' | 'changed';
+	name: string;
+	before?: string; // * JVM type signature, such as "I" or "Ljava/lang/String;"
+	after?: string;
+};
+
+export interface ClassChange {
+	type: 'added' | 'removed' | 'changed';
+	className: string;
+	serialVersionUID?: { before: string; after: string; }; // * Only set if it changed. Strings, since JSON has no 64 bit integers
+	flags?: { before: number; after: number; }; // * Only set if they changed
+	fields: FieldChange[];
+};
+
+export default interface DiffReport {
+	classes: ClassChange[];
+	values: ValueChange[];
+};
@@ -0,0 +1,4 @@
+export default interface DumpOptions {
+	offsets?: boolean; // * Prefixes every line with the offset of its token, such as "[0x0000001a]". Defaults to false
+	strictUTF?: boolean; // * Throw on malformed modified UTF-8 strings. When false, malformed bytes are replaced with U+FFFD. Defaults to true
+};
@@ -0,0 +1,12 @@
+import type ObjectInputStream from '@/object-input-stream';
+import type { JavaClassDesc } from '@/object-input-stream';
+import type JavaValue from '@/types/java-value';
+
+export interface ExternalReaderContext {
+	classDesc: JavaClassDesc;
+	readObject(): JavaValue;
+};
+
+type ExternalReader = (ois: ObjectInputStream, context: ExternalReaderContext) => JavaValue[];
+
+export default ExternalReader;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import type GadgetSignature from '@/types/gadget-signature';
+import type { GadgetSeverity } from '@/types/gadget-signature';
+
+export interface GadgetFinding {
+	className: string; // * Class description the match was found on. Empty for proxies
+	matchedClass: string; // * Class name which matched the signature. Differs from "className" unless "via" is "class"
+	via: 'class' | 'superclass' | 'array component' | 'proxy interface';
+	signature: GadgetSignature;
+};
+
+export default interface GadgetScanReport {
+	severity: GadgetSeverity | null; // * Highest severity found, or null if nothing was found
+	findings: GadgetFinding[]; // * Ordered from most to least severe, then in the order they were found
+	classesScanned: number;
+};
@@ -0,0 +1,10 @@
+export type GadgetSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// * A class known to be used in deserialization gadget chains. Plain data, so signature
+// * lists can be loaded from JSON
+export default interface GadgetSignature {
+	pattern: string; // * Class name pattern, using the same syntax as "allowClasses" and "denyClasses"
+	severity: GadgetSeverity;
+	description: string;
+	chains?: string[]; // * Names of known chains using the class, such as ysoserial payload names
+};
@@ -3,7 +3,7 @@ export default interface InputStream {
 	pos(): number;
 	peek(): number;
 	skip(offset: number): void;
-	read(len: number): Buffer;
+	read(len: number): Uint8Array;
 	readBoolean(): boolean;
 	readInt8(): number;
 	readInt16BE(): number;
@@ -13,4 +13,15 @@ export default interface InputStream {
 	readUInt16BE(): number;
 	readDoubleBE(): number;
 	readFloatBE(): number;
-};
\ No newline at end of file
+};
+
+// * Implemented by streams which receive their data over time, such as ReadableInputStream.
+// * Lets ObjectInputStream's async iterator wait for data, and rewind to retry elements
+// * which have only partially arrived
+export interface AsyncInputStream extends InputStream {
+	waitFor(length: number): Promise<void>;
+	available(): number;
+	isEnded(): boolean;
+	mark(): void; // * Starts remembering data as it is read, so the stream can be reset back to this point
+	reset(): void; // * Rewinds to the last mark
+};
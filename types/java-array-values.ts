@@ -0,0 +1,18 @@
+import type JavaValue from '@/types/java-value';
+
+// * Elements of a JavaArray. Primitive arrays are read in bulk into typed arrays, rather than
+// * an array of boxed values:
+// *
+// *   byte[]      Uint8Array, a view into the stream data without copying
+// *   short[]     Int16Array
+// *   char[]      Uint16Array, or a string if "charArraysAsStrings" is set
+// *   int[]       Int32Array
+// *   long[]      BigInt64Array
+// *   float[]     Float32Array
+// *   double[]    Float64Array
+// *   boolean[]   boolean[]
+// *
+// * Arrays of objects, including multidimensional arrays, are plain arrays
+type JavaArrayValues = JavaValue[] | Uint8Array | Int16Array | Uint16Array | Int32Array | BigInt64Array | Float32Array | Float64Array | string;
+
+export default JavaArrayValues;
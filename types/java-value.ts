@@ -0,0 +1,31 @@
+import type {
+	JavaObject,
+	JavaString,
+	JavaArray,
+	JavaEnum,
+	JavaClass,
+	JavaClassDesc,
+	JavaException,
+	JavaReset,
+	BlockData,
+	ExternalData
+} from '@/object-input-stream';
+
+// * A value as the parser returns it. Top-level elements, field values, array elements and
+// * annotation elements are all one of these, unless a class handler replaced an object:
+// *
+// *   Objects, strings, enums, classes     JavaObject, JavaString, JavaEnum, JavaClass
+// *   Arrays                               JavaArray
+// *   Class descriptions                   JavaClassDesc, when written as a value of their own
+// *   TC_EXCEPTION, TC_RESET               JavaException, JavaReset
+// *   Block data                           BlockData, or ExternalData for externalContents
+// *   B, S, I, F, D                        number
+// *   J                                    bigint
+// *   C                                    string
+// *   Z                                    boolean
+// *   TC_NULL                              null
+// *
+// * Lists of elements, such as the result of readAll, are plain arrays
+type JavaValue = JavaObject | JavaString | JavaArray | JavaEnum | JavaClass | JavaClassDesc | JavaException | JavaReset | BlockData | ExternalData | number | bigint | string | boolean | null | JavaValue[];
+
+export default JavaValue;
@@ -0,0 +1,16 @@
+import type ClassRegistry from '@/class-registry';
+import type ExternalReader from '@/types/external-reader';
+import type ClassHandler from '@/types/class-handler';
+import type StreamLimits from '@/types/stream-limits';
+
+export default interface ObjectInputStreamOptions {
+	externalReaders?: ClassRegistry<ExternalReader>;
+	classHandlers?: ClassRegistry<ClassHandler>;
+	strictUTF?: boolean;
+	charArraysAsStrings?: boolean; // * Read char[] arrays as strings instead of Uint16Arrays. Defaults to false
+	lenient?: boolean; // * Stop at the first error instead of throwing, keeping everything read so far. Defaults to false
+	resync?: boolean; // * In lenient mode, skip ahead to the next readable TC_OBJECT after an error instead of stopping. Defaults to false
+	limits?: StreamLimits;
+	allowClasses?: string[]; // * If set, only classes matching one of these patterns may be read
+	denyClasses?: string[]; // * Classes matching any of these patterns may not be read. Checked after "allowClasses"
+};
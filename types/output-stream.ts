@@ -0,0 +1,13 @@
+export default interface OutputStream {
+	pos(): number;
+	write(data: Uint8Array): void;
+	writeBoolean(value: boolean): void;
+	writeInt8(value: number): void;
+	writeInt16BE(value: number): void;
+	writeInt32BE(value: number): void;
+	writeInt64BE(value: bigint): void;
+	writeUInt8(value: number): void;
+	writeUInt16BE(value: number): void;
+	writeDoubleBE(value: number): void;
+	writeFloatBE(value: number): void;
+};
\ No newline at end of file
@@ -0,0 +1,9 @@
+import type { JavaSerializationError } from '@/errors';
+import type { JavaObject, JavaArray } from '@/object-input-stream';
+
+// * Recorded by ObjectInputStream in lenient mode for every top-level element which failed to parse
+export default interface ReadDiagnostic {
+	error: JavaSerializationError;
+	partial: JavaObject | JavaArray | null; // * The object or array the element was building when the error was thrown, if any
+	skipped: number; // * Bytes skipped to find the next readable object. 0 unless "resync" is enabled
+};
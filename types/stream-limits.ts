@@ -0,0 +1,11 @@
+// * Limits enforced by ObjectInputStream, for reading untrusted streams. Every limit is
+// * unlimited by default. Exceeding a limit throws a SecurityLimitError
+export default interface StreamLimits {
+	maxArrayLength?: number; // * Number of elements in a single array
+	maxStringBytes?: number; // * Number of bytes in a single string
+	maxBlockDataBytes?: number; // * Number of bytes in a single block data segment
+	maxTotalBytes?: number; // * Number of bytes read from the stream, including the stream header
+	maxDepth?: number; // * Number of objects, arrays and class descriptions nested inside of each other
+	maxHandles?: number; // * Number of handles assigned since the last TC_RESET
+	maxReferences?: number; // * Number of TC_REFERENCE back-references read in total
+};
@@ -0,0 +1,16 @@
+import type ClassRegistry from '@/class-registry';
+import type { JavaObject } from '@/object-input-stream';
+import type Decoder from '@/types/decoder';
+
+export interface PlainConverterContext {
+	toPlain(value: unknown): unknown; // * Converts a nested value using the same options and reference tracking
+};
+
+export type PlainConverter = (object: JavaObject, context: PlainConverterContext) => unknown;
+
+export default interface ToPlainOptions {
+	converters?: ClassRegistry<PlainConverter>;
+	decoders?: ClassRegistry<Decoder>; // * Decoders used before conversion. Defaults to the built-in decoders
+	includeClassNames?: boolean; // * Adds a "$class" field to every converted object. Defaults to true
+	includeAnnotations?: boolean; // * Adds an "$annotations" field to objects with class annotations. Defaults to true
+};
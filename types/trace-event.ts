@@ -0,0 +1,14 @@
+// * Emitted by "trace" for every token in the stream, in stream order.
+// *
+// *   - "start" opens a nested section, such as a "TC_OBJECT" element or a "classdata" label.
+// *     Type code elements cover their type code byte. Labels cover no bytes
+// *   - "end" closes the last section which was opened
+// *   - "value" is a single value read from the stream, such as a "Length" or an "(int)" field
+export default interface TraceEvent {
+	type: 'start' | 'end' | 'value';
+	token: string; // * Such as "TC_OBJECT", "className", "Length", "newHandle" or "(int)"
+	offset: number; // * Offset in the stream the token starts at
+	length: number; // * Number of bytes the token covers. 0 for labels and "end" events
+	value?: number | bigint | string | boolean | Uint8Array; // * The decoded value. The type code number for type code elements
+	data?: Uint8Array; // * The raw bytes of the token, for tokens which cover any bytes
+};
@@ -0,0 +1,3 @@
+export default interface TypeGeneratorOptions {
+	importFrom?: string; // * Module the model types are imported from. Defaults to "@pretendonetwork/java.io"
+};
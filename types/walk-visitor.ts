@@ -0,0 +1,12 @@
+import type JavaValue from '@/types/java-value';
+
+// * Steps from the root to a value. Field names are strings. Numbers are array indexes for
+// * arrays, and annotation indexes for objects, counting the annotations of every class in
+// * the hierarchy from the top-most super-class down, including block data
+export type WalkPath = (string | number)[];
+
+// * Called once for every object, array, string, enum, class, exception and block of data.
+// * Primitive field values are not visited. Return false to skip the children of the value
+type WalkVisitor = (value: JavaValue & object, path: WalkPath) => boolean | void;
+
+export default WalkVisitor;